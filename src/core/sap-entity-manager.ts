@@ -60,6 +60,7 @@ export class SAPEntityManager {
         updatable: true,
         deletable: true,
         addressable: true,
+        hasStream: false,
       };
 
       return mockMetadata;
@@ -105,9 +106,15 @@ export class SAPEntityManager {
                 updatable: true,
                 deletable: true,
                 addressable: true,
+                hasStream: false,
               },
             ],
             entitySets: [{ CustomerSet: 'Customer' }],
+            complexTypes: [],
+            enumTypes: [],
+            associations: [],
+            associationSets: [],
+            operations: [],
             version: '1.0',
             namespace: 'SAP.Customer',
           },
@@ -139,9 +146,15 @@ export class SAPEntityManager {
                 updatable: true,
                 deletable: false,
                 addressable: true,
+                hasStream: false,
               },
             ],
             entitySets: [{ SalesOrderSet: 'SalesOrder' }],
+            complexTypes: [],
+            enumTypes: [],
+            associations: [],
+            associationSets: [],
+            operations: [],
             version: '1.0',
             namespace: 'SAP.Sales',
           },
@@ -17,8 +17,9 @@ import { Logger } from './utils/logger.js';
 import { Config } from './utils/config.js';
 import { DestinationService } from './services/destination-service.js';
 import { SAPClient } from './services/sap-client.js';
+import { RequestCoalescer } from './utils/request-coalescer.js';
 import { SAPDiscoveryService } from './services/sap-discovery.js';
-import { ODataService } from './types/sap-types.js';
+import { ODataService, MetadataStatus } from './types/sap-types.js';
 import { ServiceDiscoveryConfigService } from './services/service-discovery-config.js';
 import { AuthServer } from './services/auth-server.js';
 import { aiIntegration } from './services/ai-integration.js';
@@ -130,7 +131,7 @@ async function reloadODataServices(): Promise<{ success: boolean; servicesCount:
 async function getODataConfigStatus(): Promise<{ 
     config: Record<string, unknown>; 
     servicesCount: number; 
-    discoveredServices: Array<{ id: string; name: string; url: string; entities: number }>;
+    discoveredServices: Array<{ id: string; name: string; url: string; entities: number; metadata?: MetadataStatus }>;
 }> {
     try {
         // Get current configuration
@@ -141,7 +142,8 @@ async function getODataConfigStatus(): Promise<{
             id: service.id,
             name: service.title || service.id,
             url: service.url,
-            entities: service.entitySets ? service.entitySets.length : 0
+            entities: service.metadata?.entityTypes.length ?? 0,
+            metadata: service.metadataStatus
         }));
 
         return {
@@ -1031,7 +1033,8 @@ export function createApp(): express.Application {
                 'GET /auth/admin/users': 'User session management',
                 'POST /auth/admin/odata/reload': 'Reload OData service discovery',
                 'GET /auth/admin/odata/status': 'OData discovery status',
-                'GET /auth/admin/destinations/status': 'SAP Destination service status'
+                'GET /auth/admin/destinations/status': 'SAP Destination service status',
+                'POST /auth/admin/cache/flush': 'Flush the SAP response cache'
             },
 
             features: {
@@ -1125,6 +1128,7 @@ export function createApp(): express.Application {
                 nodeVersion: process.version,
                 timestamp: new Date().toISOString(),
                 cloudLogging: cloudLoggingService.getStatus(),
+                sapRequestCoalescing: RequestCoalescer.getInstance().getStats(),
                 environment: {
                     nodeEnv: process.env.NODE_ENV || 'development',
                     region: process.env.CF_INSTANCE_INDEX ? 'cloud-foundry' : 'local'
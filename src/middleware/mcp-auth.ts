@@ -539,7 +539,12 @@ export class MCPAuthManager {
    * Check if a tool is a runtime operation (requires explicit Session ID)
    */
   private isRuntimeOperation(toolName: string): boolean {
-    const runtimeTools = ['execute-entity-operation'];
+    const runtimeTools = [
+      'execute-entity-operation',
+      'execute-batch-operations',
+      'execute-service-operation',
+      'execute-media-operation',
+    ];
     return runtimeTools.includes(toolName);
   }
 
@@ -579,10 +584,14 @@ export class MCPAuthManager {
       switch (operation) {
         case 'read':
         case 'read-single':
+        case 'count':
           return 'read';
         case 'create':
         case 'update':
         case 'patch':
+        case 'draft-edit':
+        case 'draft-activate':
+        case 'draft-discard':
           return 'write';
         case 'delete':
           return 'delete';
@@ -591,6 +600,27 @@ export class MCPAuthManager {
       }
     }
 
+    // Batch requests need the strongest scope of any contained operation
+    if (toolName === 'execute-batch-operations' && Array.isArray(args?.operations)) {
+      const operations = args.operations.map((entry: { operation?: string }) => entry?.operation);
+      if (operations.includes('delete')) {
+        return 'delete';
+      }
+      if (operations.includes('create') || operations.includes('update')) {
+        return 'write';
+      }
+      return 'read';
+    }
+
+    if (toolName === 'execute-media-operation') {
+      return args?.operation === 'upload' ? 'write' : 'read';
+    }
+
+    // Functions only read data, actions (any other HTTP method) modify it
+    if (toolName === 'execute-service-operation') {
+      return args?.httpMethod === 'GET' ? 'read' : 'write';
+    }
+
     const scopeMapping: Record<string, string> = {
       // Read operations
       sap_odata_read_entity: 'read',
@@ -10,6 +10,9 @@ import { authMiddleware, AuthenticatedRequest, requireAdmin } from '../middlewar
 import xssec from '@sap/xssec';
 import xsenv from '@sap/xsenv';
 import { SESSION_LIFETIMES } from '../constants/timeouts.js';
+import { CircuitBreakerRegistry } from '../utils/circuit-breaker.js';
+import { ResponseCache } from '../utils/response-cache.js';
+import { MetadataStatus } from '../types/sap-types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -1718,6 +1721,7 @@ export class AuthServer {
           success: true,
           timestamp: new Date().toISOString(),
           destinations: destinationStatus,
+          circuitBreakers: CircuitBreakerRegistry.getInstance().getStatus(),
         });
       } catch (error) {
         this.logger.error('Failed to get destination status:', error);
@@ -1728,6 +1732,54 @@ export class AuthServer {
       }
     });
 
+    // Admin endpoint to drop all cached SAP read responses
+    this.app.post('/admin/cache/flush', async (req: Request, res: Response) => {
+      try {
+        let isAuthenticated = false;
+        let hasAdminScope = false;
+        let authenticatedUser = 'Unknown';
+
+        const authSessionId =
+          (req.query.session as string) || (req.headers['x-mcp-session-id'] as string);
+        if (authSessionId) {
+          const tokenData = await this.tokenStore.get(authSessionId);
+          if (tokenData && Date.now() < tokenData.expiresAt) {
+            isAuthenticated = true;
+            hasAdminScope = tokenData.scopes?.some(scope => scope.includes('admin')) || false;
+            authenticatedUser = tokenData.user || 'Unknown';
+          }
+        }
+
+        if (!isAuthenticated) {
+          return res.status(401).json({ error: 'Authentication required' });
+        }
+
+        if (!hasAdminScope) {
+          return res.status(403).json({ error: 'Admin access required' });
+        }
+
+        const cache = ResponseCache.getInstance();
+        const flushed = cache.flush();
+        this.logger.info(
+          `Admin ${authenticatedUser} flushed the response cache (${flushed} entries)`
+        );
+
+        res.json({
+          success: true,
+          flushedEntries: flushed,
+          stats: cache.getStats(),
+          triggeredBy: authenticatedUser,
+          triggeredAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        this.logger.error('Response cache flush failed:', error);
+        res.status(500).json({
+          error: 'Internal server error',
+          message: 'Failed to flush the response cache',
+        });
+      }
+    });
+
     // Note: 404 handler removed - let the main application handle unknown routes
   }
 
@@ -1791,7 +1843,13 @@ export class AuthServer {
   private getODataStatusCallback?: () => Promise<{
     config: Record<string, unknown>;
     servicesCount: number;
-    discoveredServices: Array<{ id: string; name: string; url: string; entities: number }>;
+    discoveredServices: Array<{
+      id: string;
+      name: string;
+      url: string;
+      entities: number;
+      metadata?: MetadataStatus;
+    }>;
   }>;
   private getDestinationStatusCallback?: (userJWT?: string) => Promise<{
     designTime: { name: string; available: boolean; error?: string; authType?: string };
@@ -1815,7 +1873,13 @@ export class AuthServer {
     callback: () => Promise<{
       config: Record<string, unknown>;
       servicesCount: number;
-      discoveredServices: Array<{ id: string; name: string; url: string; entities: number }>;
+      discoveredServices: Array<{
+        id: string;
+        name: string;
+        url: string;
+        entities: number;
+        metadata?: MetadataStatus;
+      }>;
     }>
   ) {
     this.getODataStatusCallback = callback;
@@ -1840,7 +1904,13 @@ export class AuthServer {
   async getODataConfigStatus(): Promise<{
     config: Record<string, unknown>;
     servicesCount: number;
-    discoveredServices: Array<{ id: string; name: string; url: string; entities: number }>;
+    discoveredServices: Array<{
+      id: string;
+      name: string;
+      url: string;
+      entities: number;
+      metadata?: MetadataStatus;
+    }>;
   }> {
     if (this.getODataStatusCallback) {
       return await this.getODataStatusCallback();
@@ -3,6 +3,7 @@ import { CloudLoggingService } from './cloud-logging-service.js';
 import { DestinationService } from './destination-service.js';
 import { TokenStore } from './token-store.js';
 import { IASAuthService } from './ias-auth-service.js';
+import { CircuitBreakerRegistry } from '../utils/circuit-breaker.js';
 
 export interface HealthCheckResult {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -152,7 +153,7 @@ export class HealthService {
     const checks: Record<string, HealthCheckResult> = {};
 
     // Run all health checks in parallel
-    const [liveness, destination, auth, tokenStore, cloudLogging, memory, vcap] =
+    const [liveness, destination, auth, tokenStore, cloudLogging, memory, vcap, circuitBreakers] =
       await Promise.allSettled([
         this.livenessProbe(),
         this.checkDestinationService(),
@@ -161,6 +162,7 @@ export class HealthService {
         this.checkCloudLogging(),
         this.checkMemoryUsage(),
         this.checkVCAPServices(),
+        this.checkCircuitBreakers(),
       ]);
 
     // Collect results
@@ -192,6 +194,10 @@ export class HealthService {
       vcap.status === 'fulfilled'
         ? vcap.value
         : this.createErrorResult('vcapServices', vcap.reason);
+    checks.circuitBreakers =
+      circuitBreakers.status === 'fulfilled'
+        ? circuitBreakers.value
+        : this.createErrorResult('circuitBreakers', circuitBreakers.reason);
 
     // Determine overall health
     const healthyCount = Object.values(checks).filter(check => check.status === 'healthy').length;
@@ -501,6 +507,36 @@ export class HealthService {
     }
   }
 
+  /**
+   * Check the SAP backend circuit breakers
+   * An open circuit means tool calls against that destination currently fail fast
+   */
+  private async checkCircuitBreakers(): Promise<HealthCheckResult> {
+    const startTime = Date.now();
+
+    try {
+      const circuits = CircuitBreakerRegistry.getInstance().getStatus();
+      const open = circuits.filter(circuit => circuit.state !== 'closed');
+
+      return {
+        status: open.length > 0 ? 'degraded' : 'healthy',
+        timestamp: new Date().toISOString(),
+        duration: Date.now() - startTime,
+        details: {
+          openCircuits: open.map(circuit => circuit.destination),
+          circuits,
+        },
+      };
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        timestamp: new Date().toISOString(),
+        duration: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Get environment information
    */
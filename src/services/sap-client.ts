@@ -1,4 +1,6 @@
-import { executeHttpRequest } from '@sap-cloud-sdk/http-client';
+import { createHash } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { executeHttpRequest, HttpResponse } from '@sap-cloud-sdk/http-client';
 import { HttpDestination } from '@sap-cloud-sdk/connectivity';
 import { DestinationService } from './destination-service.js';
 import { Logger } from '../utils/logger.js';
@@ -8,11 +10,132 @@ import {
   OperationType,
   isRuntimeOperation,
 } from '../types/destination-types.js';
+import {
+  SAPBusinessError,
+  SAPConcurrencyError,
+  SAPRequestCancelledError,
+} from '../utils/sap-errors.js';
+import { SAPMessageUtils } from '../utils/sap-messages.js';
+import { CircuitBreakerRegistry } from '../utils/circuit-breaker.js';
+import { ResponseCache, ResponseCacheOptions } from '../utils/response-cache.js';
+import { RequestCoalescer } from '../utils/request-coalescer.js';
+import { ODataBatchUtils } from '../utils/odata-batch.js';
+import { ODataPagingUtils, PagePosition } from '../utils/odata-paging.js';
+import { CsdlUtils } from '../utils/csdl.js';
+import {
+  BatchOperation,
+  BatchOperationResult,
+  ComplexType,
+  EntityType,
+  NormalizedResponse,
+  SAPMessage,
+  ServiceOperation,
+} from '../types/sap-types.js';
+
+// Transient conditions of the Cloud Connector, API Management or Gateway worth retrying
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ECONNABORTED',
+]);
+
+// Responses that mean the backend behind the destination is down rather than rejecting the request
+const UNAVAILABLE_STATUS_CODES = new Set([502, 503, 504]);
+
+/**
+ * CSRF token and the Gateway session cookies it is bound to
+ */
+interface CsrfTokenEntry {
+  token: string;
+  cookies?: string;
+  fetchedAt: number;
+}
+
+/**
+ * HTTP request as sent to the destination
+ */
+interface SendOptions {
+  url: string;
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  data?: unknown;
+  headers?: Record<string, string>;
+  jwt?: string; // JWT token for Principal Propagation
+  servicePath?: string; // Service root used for the CSRF token handshake
+  signal?: AbortSignal; // Aborts the request when the MCP client cancels the tool call
+  responseType?: 'arraybuffer'; // Binary responses (media content) are returned as Buffer
+  maxContentLength?: number; // Response size limit in bytes
+}
+
+/**
+ * Per-request options for CRUD operations
+ */
+export interface CRUDRequestOptions {
+  servicePath?: string; // Service root used for the CSRF token handshake
+  headers?: Record<string, string>;
+  ifMatch?: string; // ETag for optimistic concurrency on update/delete
+  signal?: AbortSignal; // Aborts the request when the MCP client cancels the tool call
+  cache?: ResponseCacheOptions; // Serve reads from the response cache (needs servicePath)
+}
+
+export interface MediaUploadOptions {
+  servicePath?: string;
+  slug?: string; // Sent as Slug header, SAP typically stores it as the file name
+  ifMatch?: string; // ETag of the media entity when replacing its content
+  signal?: AbortSignal;
+}
+
+export interface MediaContent {
+  content: Buffer;
+  contentType: string;
+  etag?: string;
+  retries: number;
+}
+
+export interface CollectionReadOptions {
+  autoPaginate?: boolean; // Follow next links until the collection is complete or maxRecords is reached
+  maxRecords?: number; // Capped by PAGING_MAX_RECORDS
+  offset?: number; // Records of the first page to skip (continuing from a cursor)
+  signal?: AbortSignal;
+  cache?: ResponseCacheOptions;
+}
+
+export interface CollectionReadResult {
+  data: unknown; // First page payload with the records of all pages read
+  recordCount: number;
+  pages: number;
+  next?: PagePosition; // Set when more data exists
+  retries: number; // Retries needed across all pages
+  cachedAt?: number; // Oldest cache time when pages were served from the response cache
+}
+
+/**
+ * HTTP response with the number of automatic retries it took
+ * cachedAt is set when the response was served from the response cache
+ */
+export type RetriedHttpResponse = HttpResponse & { retries: number; cachedAt?: number };
+
+/**
+ * Shape of the HTTP response attached to SAP Cloud SDK / axios errors
+ */
+interface ErrorResponse {
+  status: number;
+  statusText?: string;
+  headers?: Record<string, unknown>;
+  data?: unknown;
+}
 
 export class SAPClient {
   private designTimeDestination: HttpDestination | null = null;
   private runtimeDestination: HttpDestination | null = null;
   private config: Config;
+  private csrfTokens = new Map<string, CsrfTokenEntry>(); // Keyed by destination + user
+  private circuitBreaker = CircuitBreakerRegistry.getInstance();
+  private responseCache = ResponseCache.getInstance();
+  private requestCoalescer = RequestCoalescer.getInstance();
 
   constructor(
     private destinationService: DestinationService,
@@ -60,15 +183,13 @@ export class SAPClient {
   /**
    * Execute HTTP request with context-aware destination selection and JWT handling
    */
-  async executeRequest(options: {
-    url: string;
-    method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
-    data?: unknown;
-    headers?: Record<string, string>;
-    context?: DestinationContext;
-    operation?: OperationType;
-    jwt?: string; // JWT token for Principal Propagation
-  }) {
+  async executeRequest(
+    options: SendOptions & {
+      context?: DestinationContext;
+      operation?: OperationType;
+      cache?: ResponseCacheOptions; // Serve GET responses from the response cache (needs servicePath)
+    }
+  ): Promise<RetriedHttpResponse> {
     // Determine operation context
     const context = options.context || {
       type: this.getDestinationTypeForMethod(options.method),
@@ -76,37 +197,501 @@ export class SAPClient {
     };
 
     try {
+      options.signal?.throwIfAborted();
+
       // Pass JWT directly to destination service - no global environment variables
       const destination = await this.getDestinationWithJWT(context, options.jwt);
 
-      const requestOptions = {
-        method: options.method,
-        url: options.url,
-        data: options.data,
-        headers: {
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-          ...options.headers,
-        },
-      };
-
       this.logger.debug(`Executing ${options.method} request to ${options.url}`);
 
       if (!destination.url) {
         throw new Error('Destination URL is not configured');
       }
 
-      const response = await executeHttpRequest(destination as HttpDestination, requestOptions);
+      const requestKey = this.getRequestKey(destination, options);
+      const cacheKey =
+        options.cache && options.method === 'GET' && options.servicePath ? requestKey : undefined;
+      if (cacheKey && !options.cache?.refresh) {
+        const cached = this.responseCache.get(cacheKey);
+        if (cached) {
+          this.logger.debug(`Serving ${options.url} from response cache`);
+          return { ...cached.response, request: undefined, retries: 0, cachedAt: cached.storedAt };
+        }
+      }
 
-      this.logger.debug(`Request completed successfully`);
-      return response;
+      if (options.method !== 'GET') {
+        return await this.sendThroughCircuit(destination, options, cacheKey);
+      }
+
+      // Identical concurrent reads of the same user share one upstream call and its parsed result
+      const { result, coalesced } = await this.requestCoalescer.run(
+        requestKey,
+        signal => this.sendThroughCircuit(destination, { ...options, signal }, cacheKey),
+        options.signal
+      );
+      if (coalesced) {
+        this.logger.debug(`Joined in-flight request GET ${options.url}`);
+      }
+      return result;
     } catch (error) {
+      if (options.signal?.aborted) {
+        this.logger.info(`${options.method} ${options.url} cancelled by the client`);
+        throw new SAPRequestCancelledError(`${options.method} ${options.url}`);
+      }
       this.logger.error(`Request failed:`, error);
-      throw this.handleError(error);
+      const handled = this.handleError(error);
+      const retries = (error as { retries?: number } | undefined)?.retries;
+      const suffix = ` (after ${retries} ${retries === 1 ? 'retry' : 'retries'})`;
+      // Coalesced callers share the error instance, annotate it once
+      if (retries && !handled.message.endsWith(suffix)) {
+        handled.message += suffix;
+      }
+      throw handled;
     }
     // No cleanup needed - JWT passed directly without global variables
   }
 
+  /**
+   * Send a request unless the circuit of its destination is open, storing cacheable responses
+   */
+  private async sendThroughCircuit(
+    destination: HttpDestination,
+    options: SendOptions & { cache?: ResponseCacheOptions },
+    cacheKey?: string
+  ): Promise<RetriedHttpResponse> {
+    // Fail fast while the backend behind this destination is known to be down
+    const circuit = destination.name || destination.url;
+    this.circuitBreaker.acquire(circuit);
+    const scope = cacheKey ? this.getCacheScope(options.url, options.servicePath!) : undefined;
+    const generation = scope && this.responseCache.getGeneration(scope);
+    try {
+      const response = await this.sendWithCsrf(destination, options);
+      this.circuitBreaker.recordSuccess(circuit);
+      if (cacheKey && scope) {
+        this.responseCache.set(
+          cacheKey,
+          { status: response.status, headers: response.headers, data: response.data },
+          options.cache!.ttl,
+          scope,
+          generation
+        );
+      }
+      return response;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        this.circuitBreaker.release(circuit);
+      } else if (this.isBackendUnavailable(error)) {
+        this.circuitBreaker.recordFailure(circuit, this.describeFailure(error));
+      } else {
+        this.circuitBreaker.recordSuccess(circuit);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request, fetching or refreshing the CSRF token for modifying requests
+   */
+  private async sendWithCsrf(
+    destination: HttpDestination,
+    options: SendOptions
+  ): Promise<RetriedHttpResponse> {
+    if (!this.requiresCsrfToken(options.method)) {
+      const response = await this.sendWithRetry(destination, options);
+      this.logger.debug(`Request completed successfully`);
+      return response;
+    }
+
+    const csrfKey = this.getCsrfCacheKey(destination, options.jwt);
+    const csrfUrl = options.servicePath || options.url;
+
+    try {
+      const csrf = await this.getCsrfToken(destination, csrfKey, csrfUrl, options.signal);
+      const response = await this.sendWithRetry(destination, options, csrf);
+      this.logger.debug(`Request completed successfully`);
+      return response;
+    } catch (error) {
+      if (!this.isCsrfValidationError(error)) {
+        throw error;
+      }
+
+      // Token expired or Gateway session was dropped - refetch once and retry
+      this.logger.info(`CSRF token rejected for ${options.method} ${options.url}, refetching`);
+      this.csrfTokens.delete(csrfKey);
+      const csrf = await this.getCsrfToken(destination, csrfKey, csrfUrl, options.signal);
+      const response = await this.sendWithRetry(destination, options, csrf);
+      this.logger.debug(`Request completed successfully after CSRF token refresh`);
+      return response;
+    }
+  }
+
+  /**
+   * Send a request, retrying idempotent ones on transient failures
+   * Backoff is exponential with jitter; a Retry-After header from the server takes precedence
+   */
+  private async sendWithRetry(
+    destination: HttpDestination,
+    options: SendOptions,
+    csrf?: CsrfTokenEntry
+  ): Promise<RetriedHttpResponse> {
+    const maxRetries = this.isIdempotent(options.method, options.headers)
+      ? this.config.get<number>('request.retries', 3)
+      : 0;
+
+    for (let retries = 0; ; retries++) {
+      try {
+        const response = await this.send(destination, options, csrf);
+        if (retries > 0) {
+          this.logger.info(
+            `${options.method} ${options.url} succeeded after ${retries} ${retries === 1 ? 'retry' : 'retries'}`
+          );
+        }
+        return Object.assign(response, { retries });
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
+        const delay = retries < maxRetries ? this.getRetryDelay(error, retries) : undefined;
+        if (delay === undefined) {
+          if (retries > 0 && typeof error === 'object' && error !== null) {
+            Object.assign(error, { retries });
+          }
+          throw error;
+        }
+
+        const status = this.getErrorResponse(error)?.status;
+        this.logger.warn(
+          `${options.method} ${options.url} failed (${status ?? this.getErrorCode(error)}), retry ${retries + 1}/${maxRetries} in ${delay}ms`
+        );
+        await sleep(delay, undefined, { signal: options.signal });
+      }
+    }
+  }
+
+  /**
+   * Only requests that can be repeated without side effects are retried automatically:
+   * reads, and updates/deletes guarded by If-Match (a repeat after success fails with 412 instead
+   * of applying twice)
+   */
+  private isIdempotent(method: string, headers?: Record<string, string>): boolean {
+    if (method === 'GET') {
+      return true;
+    }
+    return (
+      ['PUT', 'PATCH', 'MERGE', 'DELETE'].includes(method) && !!this.getHeader(headers, 'if-match')
+    );
+  }
+
+  /**
+   * Delay before the next attempt, or undefined if the failure is not transient
+   */
+  private getRetryDelay(error: unknown, retries: number): number | undefined {
+    const response = this.getErrorResponse(error);
+    if (response ? !RETRYABLE_STATUS_CODES.has(response.status) : !this.isNetworkError(error)) {
+      return undefined;
+    }
+
+    const maxDelay = this.config.get<number>('request.retryMaxDelay', 30000);
+    const retryAfter = this.parseRetryAfter(this.getHeader(response?.headers, 'retry-after'));
+    if (retryAfter !== undefined) {
+      // Waiting longer than allowed would only hold the tool call open, fail right away
+      return retryAfter <= maxDelay ? retryAfter : undefined;
+    }
+
+    const backoff = Math.min(
+      maxDelay,
+      this.config.get<number>('request.retryDelay', 500) * 2 ** retries
+    );
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Retry-After is either delay seconds or an HTTP date
+   */
+  private parseRetryAfter(value?: string): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return Number(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private isNetworkError(error: unknown): boolean {
+    const code = this.getErrorCode(error);
+    return !!code && RETRYABLE_ERROR_CODES.has(code);
+  }
+
+  private getErrorCode(error: unknown): string | undefined {
+    if (typeof error !== 'object' || error === null) {
+      return undefined;
+    }
+    const candidate = error as { code?: unknown; rootCause?: { code?: unknown } };
+    const code = candidate.rootCause?.code ?? candidate.code;
+    return typeof code === 'string' ? code : undefined;
+  }
+
+  /**
+   * Failures counted by the circuit breaker: no answer at all (network errors and timeouts),
+   * or a gateway reporting the backend as down. Rejected credentials are not an outage.
+   */
+  private isBackendUnavailable(error: unknown): boolean {
+    const code = this.getErrorCode(error);
+    // The backend answered but the response was rejected locally, e.g. above maxContentLength
+    if (code === 'ERR_BAD_RESPONSE') {
+      return false;
+    }
+    const response = this.getErrorResponse(error);
+    return response ? UNAVAILABLE_STATUS_CODES.has(response.status) : !!code;
+  }
+
+  private describeFailure(error: unknown): string {
+    const status = this.getErrorResponse(error)?.status;
+    if (status) {
+      return `HTTP ${status}`;
+    }
+    return this.getErrorCode(error) || (error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Send a single HTTP request, attaching the CSRF token and session cookies when given
+   */
+  private async send(
+    destination: HttpDestination,
+    options: SendOptions,
+    csrf?: CsrfTokenEntry
+  ): Promise<HttpResponse> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      ...options.headers,
+    };
+
+    if (csrf) {
+      headers['X-CSRF-Token'] = csrf.token;
+      if (csrf.cookies) {
+        headers.Cookie = headers.Cookie ? `${headers.Cookie}; ${csrf.cookies}` : csrf.cookies;
+      }
+    }
+
+    // CSRF handling is done here so the token can be cached and reused across requests
+    return executeHttpRequest(
+      destination,
+      {
+        method: options.method,
+        url: options.url,
+        data: options.data,
+        headers,
+        signal: options.signal,
+        responseType: options.responseType,
+        maxContentLength: options.maxContentLength,
+      },
+      { fetchCsrfToken: false }
+    );
+  }
+
+  /**
+   * Modifying requests must carry a valid X-CSRF-Token on SAP Gateway
+   */
+  private requiresCsrfToken(method: string): boolean {
+    return method !== 'GET';
+  }
+
+  /**
+   * CSRF tokens are bound to the Gateway user session, so cache them per destination and user
+   */
+  private getCsrfCacheKey(destination: HttpDestination, jwt?: string): string {
+    const user = jwt ? createHash('sha256').update(jwt).digest('hex').slice(0, 16) : 'technical';
+    return `${destination.name || destination.url}|${user}`;
+  }
+
+  /**
+   * Identity of a read for caching and coalescing: responses are only shared with the same user
+   * on the same destination asking for the same representation and language
+   */
+  private getRequestKey(destination: HttpDestination, options: SendOptions): string {
+    const language = this.getHeader(options.headers, 'accept-language') || '';
+    const accept = this.getHeader(options.headers, 'accept') || '';
+    return `${this.getCsrfCacheKey(destination, options.jwt)}|${language}|${accept}|${options.url}`;
+  }
+
+  /**
+   * Entity set a URL reads or writes; undefined when the response can contain other
+   * entity sets ($expand, navigation) or the URL does not address an entity set
+   */
+  private getCacheScope(
+    url: string,
+    servicePath: string
+  ): { servicePath: string; entitySet?: string } {
+    const relative = url.startsWith(servicePath) ? url.slice(servicePath.length) : url;
+    const match = /^([A-Za-z_][\w.]*)(\([^/?]*\))?(\/\$(?:count|value))?(\?|$)/.exec(relative);
+    const expands = /[?&]\$expand=/.test(relative);
+    return { servicePath, entitySet: match && !expands ? match[1] : undefined };
+  }
+
+  /**
+   * Drop cached reads a write may have made stale
+   * Nested objects in the payload (deep insert) can touch any entity set of the service
+   */
+  private invalidateResponseCache(url: string, servicePath: string, data?: unknown): void {
+    const nested =
+      typeof data === 'object' &&
+      data !== null &&
+      Object.values(data).some(value => typeof value === 'object' && value !== null);
+    const { entitySet } = this.getCacheScope(url, servicePath);
+    this.responseCache.invalidate(servicePath, nested ? undefined : entitySet);
+  }
+
+  /**
+   * Get a cached CSRF token or fetch a new one
+   */
+  private async getCsrfToken(
+    destination: HttpDestination,
+    cacheKey: string,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<CsrfTokenEntry> {
+    // The token dies with its Gateway session, refetch before the session times out
+    const cached = this.csrfTokens.get(cacheKey);
+    if (
+      cached &&
+      Date.now() - cached.fetchedAt < this.config.get<number>('request.csrfTokenTtl', 1200000)
+    ) {
+      return cached;
+    }
+
+    const entry = await this.fetchCsrfToken(destination, url, signal);
+    this.csrfTokens.set(cacheKey, entry);
+    return entry;
+  }
+
+  /**
+   * Fetch a CSRF token with "X-CSRF-Token: Fetch" (HEAD first, GET as fallback)
+   */
+  private async fetchCsrfToken(
+    destination: HttpDestination,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<CsrfTokenEntry> {
+    const fetchUrl = url.split('?')[0];
+    let failure: unknown; // Error of the last attempt, undefined if it was answered without token
+
+    for (const method of ['HEAD', 'GET'] as const) {
+      try {
+        const response = await executeHttpRequest(
+          destination,
+          {
+            method,
+            url: fetchUrl,
+            headers: { 'X-CSRF-Token': 'Fetch', Accept: 'application/json' },
+            signal,
+          },
+          { fetchCsrfToken: false }
+        );
+        const entry = this.toCsrfTokenEntry(response.headers);
+        if (entry) {
+          this.logger.debug(`CSRF token fetched via ${method} ${fetchUrl}`);
+          return entry;
+        }
+        failure = undefined;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        // Gateway may answer HEAD with 405 or the fetch URL with 404 but still send a token
+        const entry = this.toCsrfTokenEntry(this.getErrorResponse(error)?.headers);
+        if (entry) {
+          this.logger.debug(`CSRF token fetched via ${method} ${fetchUrl} (error response)`);
+          return entry;
+        }
+        this.logger.debug(`CSRF token fetch via ${method} ${fetchUrl} failed`);
+        failure = error;
+      }
+    }
+
+    // Keep status and error code, so an auth failure is not counted as backend outage
+    const response = this.getErrorResponse(failure);
+    const code = this.getErrorCode(failure);
+    const reason = response ? ` (HTTP ${response.status})` : code ? ` (${code})` : '';
+    throw Object.assign(new Error(`Failed to fetch CSRF token from ${fetchUrl}${reason}`), {
+      response,
+      code,
+    });
+  }
+
+  private toCsrfTokenEntry(headers?: Record<string, unknown>): CsrfTokenEntry | null {
+    const token = this.getHeader(headers, 'x-csrf-token');
+    if (!token || token.toLowerCase() === 'required') {
+      return null;
+    }
+
+    return {
+      token,
+      cookies: this.extractCookies(headers),
+      fetchedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Reduce Set-Cookie headers to a Cookie header value (name=value pairs only)
+   */
+  private extractCookies(headers?: Record<string, unknown>): string | undefined {
+    const setCookie = headers?.['set-cookie'];
+    if (!setCookie) {
+      return undefined;
+    }
+
+    const cookies = (Array.isArray(setCookie) ? setCookie : [setCookie])
+      .map(cookie => String(cookie).split(';')[0].trim())
+      .filter(Boolean);
+    return cookies.length > 0 ? cookies.join('; ') : undefined;
+  }
+
+  private getHeader(
+    headers: Record<string, unknown> | undefined,
+    name: string
+  ): string | undefined {
+    if (!headers) {
+      return undefined;
+    }
+    const match = Object.keys(headers).find(key => key.toLowerCase() === name);
+    const value = match ? headers[match] : undefined;
+    return value === undefined || value === null ? undefined : String(value);
+  }
+
+  /**
+   * Gateway answers an invalid or expired token with 403 and "X-CSRF-Token: Required"
+   */
+  private isCsrfValidationError(error: unknown): boolean {
+    const response = this.getErrorResponse(error);
+    if (!response || response.status !== 403) {
+      return false;
+    }
+
+    if (this.getHeader(response.headers, 'x-csrf-token')?.toLowerCase() === 'required') {
+      return true;
+    }
+
+    const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+    return /CSRF token validation failed/i.test(body || '');
+  }
+
+  /**
+   * Extract the HTTP response from SAP Cloud SDK (rootCause) or axios errors
+   */
+  private getErrorResponse(error: unknown): ErrorResponse | undefined {
+    if (typeof error !== 'object' || error === null) {
+      return undefined;
+    }
+    const candidate = error as {
+      rootCause?: { response?: ErrorResponse };
+      response?: ErrorResponse;
+    };
+    return candidate.rootCause?.response || candidate.response;
+  }
+
   async readEntitySet(
     servicePath: string,
     entitySet: string,
@@ -140,8 +725,12 @@ export class SAPClient {
     });
   }
 
+  /**
+   * Read a single entity
+   * The key is a formatted key predicate, see ODataLiteralUtils.buildKeyPredicate
+   */
   async readEntity(servicePath: string, entitySet: string, key: string) {
-    const url = `${servicePath}${entitySet}('${key}')`;
+    const url = `${servicePath}${entitySet}(${key})`;
 
     return this.executeRequest({
       method: 'GET',
@@ -156,25 +745,28 @@ export class SAPClient {
       method: 'POST',
       url,
       data,
+      servicePath,
     });
   }
 
   async updateEntity(servicePath: string, entitySet: string, key: string, data: unknown) {
-    const url = `${servicePath}${entitySet}('${key}')`;
+    const url = `${servicePath}${entitySet}(${key})`;
 
     return this.executeRequest({
       method: 'PATCH',
       url,
       data,
+      servicePath,
     });
   }
 
   async deleteEntity(servicePath: string, entitySet: string, key: string) {
-    const url = `${servicePath}${entitySet}('${key}')`;
+    const url = `${servicePath}${entitySet}(${key})`;
 
     return this.executeRequest({
       method: 'DELETE',
       url,
+      servicePath,
     });
   }
 
@@ -241,19 +833,458 @@ export class SAPClient {
     operation: OperationType,
     url: string,
     data?: unknown,
-    jwt?: string
+    jwt?: string,
+    options: CRUDRequestOptions = {}
   ): Promise<any> {
     const method = this.getHttpMethodForOperation(operation);
-    return this.executeRequest({
-      url,
-      method,
-      data,
-      jwt, // Forward JWT for Principal Propagation
-      context: {
-        type: 'runtime',
-        operation,
-      },
+    const headers = { ...options.headers };
+    if (options.ifMatch) {
+      headers['If-Match'] = options.ifMatch;
+    }
+
+    try {
+      return await this.executeRequest({
+        url,
+        method,
+        data,
+        headers,
+        jwt, // Forward JWT for Principal Propagation
+        servicePath: options.servicePath,
+        signal: options.signal,
+        cache: options.cache,
+        context: {
+          type: 'runtime',
+          operation,
+        },
+      });
+    } catch (error) {
+      if (error instanceof SAPConcurrencyError) {
+        error.sentEtag = options.ifMatch;
+        await this.attachCurrentVersion(error, url, jwt);
+      }
+      throw error;
+    } finally {
+      // Also after failures: a timed out write may still have been applied
+      if (operation !== 'read' && options.servicePath) {
+        this.invalidateResponseCache(url, options.servicePath, data);
+      }
+    }
+  }
+
+  /**
+   * Download the binary content of a media entity (url ends with /$value)
+   * Responses above MEDIA_MAX_DOWNLOAD_SIZE_MB are rejected while they are received
+   */
+  async downloadMedia(
+    url: string,
+    jwt?: string,
+    options: Pick<CRUDRequestOptions, 'servicePath' | 'signal'> = {}
+  ): Promise<MediaContent> {
+    const maxBytes = this.config.get<number>('media.maxDownloadSizeMb', 10) * 1024 * 1024;
+
+    let response: RetriedHttpResponse;
+    try {
+      response = await this.executeRequest({
+        url,
+        method: 'GET',
+        headers: { Accept: '*/*' },
+        jwt,
+        servicePath: options.servicePath,
+        signal: options.signal,
+        responseType: 'arraybuffer',
+        maxContentLength: maxBytes,
+        context: {
+          type: 'runtime',
+          operation: 'read',
+        },
+      });
+    } catch (error) {
+      const cause = (error as { rootCause?: unknown }).rootCause ?? error;
+      if (cause instanceof Error && /maxContentLength/.test(cause.message)) {
+        throw new Error(
+          `Media content exceeds the download limit of ${maxBytes / 1024 / 1024} MB (MEDIA_MAX_DOWNLOAD_SIZE_MB)`
+        );
+      }
+      throw error;
+    }
+
+    return {
+      content: Buffer.from(response.data),
+      contentType: this.getHeader(response.headers, 'content-type') || 'application/octet-stream',
+      etag: this.getHeader(response.headers, 'etag'),
+      retries: response.retries,
+    };
+  }
+
+  /**
+   * Upload binary content: POST to the entity set creates a media entity,
+   * PUT to an entity's /$value replaces its content
+   */
+  async uploadMedia(
+    method: 'POST' | 'PUT',
+    url: string,
+    content: Buffer,
+    contentType: string,
+    jwt?: string,
+    options: MediaUploadOptions = {}
+  ): Promise<RetriedHttpResponse> {
+    const maxBytes = this.config.get<number>('media.maxUploadSizeMb', 10) * 1024 * 1024;
+    if (content.length > maxBytes) {
+      throw new Error(
+        `Media content of ${content.length} bytes exceeds the upload limit of ${maxBytes / 1024 / 1024} MB (MEDIA_MAX_UPLOAD_SIZE_MB)`
+      );
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    if (options.slug) {
+      // Header values must be Latin-1, encode file names with umlauts etc.
+      headers.Slug = encodeURIComponent(options.slug);
+    }
+    if (options.ifMatch) {
+      headers['If-Match'] = options.ifMatch;
+    }
+
+    try {
+      return await this.executeRequest({
+        url,
+        method,
+        data: content,
+        headers,
+        jwt,
+        servicePath: options.servicePath,
+        signal: options.signal,
+        context: {
+          type: 'runtime',
+          operation: method === 'POST' ? 'create' : 'update',
+        },
+      });
+    } finally {
+      if (options.servicePath) {
+        this.invalidateResponseCache(url, options.servicePath);
+      }
+    }
+  }
+
+  /**
+   * Read a collection with server-driven paging (uses runtime destination)
+   * Returns the first page only, unless autoPaginate is set; then pages are followed up to the record ceiling
+   */
+  async readCollection(
+    servicePath: string,
+    path: string,
+    jwt?: string,
+    options: CollectionReadOptions = {}
+  ): Promise<CollectionReadResult> {
+    const limit = this.config.get<number>('paging.maxRecords', 5000);
+    const ceiling = options.autoPaginate
+      ? Math.min(options.maxRecords ?? limit, limit)
+      : Number.POSITIVE_INFINITY;
+    const records: unknown[] = [];
+    let position: PagePosition | undefined = { path, offset: options.offset ?? 0 };
+    let firstPage: unknown;
+    let pages = 0;
+    let retries = 0;
+    let cachedAt: number | undefined;
+
+    while (position) {
+      const current: PagePosition = position;
+      const response = await this.executeCRUDOperation(
+        'read',
+        `${servicePath}${current.path}`,
+        undefined,
+        jwt,
+        { servicePath, signal: options.signal, cache: options.cache }
+      );
+      pages++;
+      retries += response.retries ?? 0;
+      if (response.cachedAt !== undefined) {
+        cachedAt = Math.min(cachedAt ?? response.cachedAt, response.cachedAt);
+      }
+      firstPage ??= response.data;
+
+      const pageRecords = ODataPagingUtils.extractItems(response.data);
+      if (!pageRecords) {
+        // Not a collection (e.g. $count or a single entity)
+        return { data: response.data, recordCount: 0, pages, retries, cachedAt };
+      }
+
+      const available = pageRecords.slice(current.offset);
+      const room = ceiling - records.length;
+      if (available.length > room) {
+        // Ceiling reached within this page: continue from the first record not returned
+        records.push(...available.slice(0, room));
+        position = { path: current.path, offset: current.offset + room };
+        break;
+      }
+      records.push(...available);
+
+      const nextLink = ODataPagingUtils.extractNextLink(response.data);
+      position = nextLink
+        ? { path: ODataPagingUtils.toServiceRelativePath(nextLink, servicePath), offset: 0 }
+        : undefined;
+
+      if (!options.autoPaginate || records.length >= ceiling) {
+        break;
+      }
+      if (position) {
+        this.logger.debug(`Following next link (page ${pages + 1}): ${position.path}`);
+      }
+    }
+
+    return {
+      data: ODataPagingUtils.withItems(firstPage, records),
+      recordCount: records.length,
+      pages,
+      next: position,
+      retries,
+      cachedAt,
+    };
+  }
+
+  /**
+   * Invoke a function import, action or function (uses runtime destination)
+   * Parameters are already encoded in the URL, V4 action parameters are passed as body
+   */
+  async executeServiceOperation(
+    url: string,
+    method: ServiceOperation['httpMethod'],
+    data?: unknown,
+    jwt?: string,
+    options: CRUDRequestOptions = {}
+  ) {
+    const headers = { ...options.headers };
+    if (options.ifMatch) {
+      headers['If-Match'] = options.ifMatch;
+    }
+
+    try {
+      return await this.executeRequest({
+        url,
+        method,
+        data,
+        headers,
+        jwt,
+        servicePath: options.servicePath,
+        signal: options.signal,
+        context: {
+          type: 'runtime',
+          operation: method === 'GET' ? 'read' : 'update',
+        },
+      });
+    } finally {
+      // Actions can change any entity set of the service
+      if (method !== 'GET' && options.servicePath) {
+        this.responseCache.invalidate(options.servicePath);
+      }
+    }
+  }
+
+  /**
+   * Execute several operations in one $batch round trip (uses runtime destination)
+   * V2 services get a multipart/mixed batch, V4 services a JSON batch
+   */
+  async executeBatch(
+    servicePath: string,
+    operations: BatchOperation[],
+    odataVersion: 'v2' | 'v4',
+    jwt?: string,
+    signal?: AbortSignal
+  ): Promise<BatchOperationResult[]> {
+    const request =
+      odataVersion === 'v4'
+        ? ODataBatchUtils.buildJsonBatch(operations)
+        : ODataBatchUtils.buildMultipartBatch(operations);
+    const hasWrites = operations.some(operation => operation.method !== 'GET');
+
+    this.logger.debug(
+      `Executing $batch with ${operations.length} operations against ${servicePath} (${odataVersion})`
+    );
+
+    let response;
+    try {
+      response = await this.executeRequest({
+        url: `${servicePath}$batch`,
+        method: 'POST',
+        data: request.body,
+        headers: {
+          'Content-Type': request.contentType,
+          Accept: odataVersion === 'v4' ? 'application/json' : 'multipart/mixed',
+        },
+        jwt,
+        servicePath,
+        signal,
+        context: {
+          type: 'runtime',
+          operation: hasWrites ? 'update' : 'read',
+        },
+      });
+    } finally {
+      if (hasWrites) {
+        this.responseCache.invalidate(servicePath);
+      }
+    }
+
+    if (odataVersion === 'v4') {
+      return ODataBatchUtils.parseJsonBatch(operations, response.data);
+    }
+
+    const contentType = this.getHeader(response.headers, 'content-type') || '';
+    const body = typeof response.data === 'string' ? response.data : String(response.data ?? '');
+    return ODataBatchUtils.parseMultipartBatch(operations, body, contentType);
+  }
+
+  /**
+   * Extract the ETag of a single-entity response (V2 __metadata, V4 @odata.etag or ETag header)
+   */
+  extractETag(response: { data?: unknown; headers?: Record<string, unknown> }): string | undefined {
+    type EntityPayload = { __metadata?: { etag?: string }; '@odata.etag'?: string };
+    const data = response.data as (EntityPayload & { d?: EntityPayload }) | undefined;
+    const entity = data?.d ?? data;
+    return (
+      entity?.__metadata?.etag ||
+      entity?.['@odata.etag'] ||
+      this.getHeader(response.headers, 'etag') ||
+      undefined
+    );
+  }
+
+  /**
+   * Warnings and info messages SAP sends with a successful response (sap-message / sap-messages header)
+   */
+  extractMessages(response: { headers?: Record<string, unknown> }): SAPMessage[] {
+    return SAPMessageUtils.parseMessageHeader(response.headers);
+  }
+
+  /**
+   * Unwrap a V2 (d, d.results, __metadata) or V4 (value, @odata.*) payload into one shape
+   * With the entity type known, Edm.DateTime/DateTimeOffset become ISO 8601 and Edm.Decimal
+   * strings numbers (kept as string when a double cannot hold the exact value)
+   */
+  normalizeResponse(
+    data: unknown,
+    options: {
+      entityType?: EntityType;
+      entityTypes?: EntityType[]; // For expanded navigation properties
+      complexTypes?: ComplexType[]; // For nested complex properties
+      count?: number;
+      nextCursor?: string;
+      etag?: string;
+    } = {}
+  ): NormalizedResponse {
+    const payload = data as { d?: unknown } | undefined;
+    const collection = ODataPagingUtils.extractItems(data);
+    const single = payload && typeof payload === 'object' ? (payload.d ?? payload) : undefined;
+    const records = collection ?? (single && Object.keys(single).length > 0 ? [single] : []);
+
+    return {
+      items: records.map(record =>
+        this.normalizeEntity(
+          record,
+          options.entityType,
+          options.entityTypes || [],
+          options.complexTypes || []
+        )
+      ),
+      count: options.count ?? ODataPagingUtils.extractCount(data),
+      nextCursor: options.nextCursor,
+      etag: options.etag,
+    };
+  }
+
+  private normalizeEntity(
+    record: unknown,
+    entityType: EntityType | ComplexType | undefined,
+    entityTypes: EntityType[],
+    complexTypes: ComplexType[]
+  ): Record<string, unknown> {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      return { value: record };
+    }
+
+    const result: Record<string, unknown> = {};
+    Object.entries(record as Record<string, unknown>).forEach(([name, value]) => {
+      // Drop protocol annotations and deferred (not expanded) navigation links
+      if (name === '__metadata' || name.startsWith('@') || name.includes('@odata.')) {
+        return;
+      }
+      if (value && typeof value === 'object' && '__deferred' in value) {
+        return;
+      }
+
+      // Expanded navigation properties hold entities, complex properties nested structures
+      const navigation = entityType?.navigationProperties.find(nav => nav.name === name);
+      const property = entityType?.properties.find(prop => prop.name === name);
+      const { type } = CsdlUtils.parseTypeReference(property?.type || '');
+      const complexType = complexTypes.find(c => `${c.namespace}.${c.name}` === type);
+      if (navigation || complexType || (!property && value && typeof value === 'object')) {
+        const targetType = navigation
+          ? entityTypes.find(e => `${e.namespace}.${e.name}` === navigation.type)
+          : complexType;
+        const nested = value as { results?: unknown[] } | unknown[] | null;
+        const items = Array.isArray(nested) ? nested : nested?.results;
+        result[name] = Array.isArray(items)
+          ? items.map(item => this.normalizeEntity(item, targetType, entityTypes, complexTypes))
+          : value === null
+            ? null
+            : this.normalizeEntity(value, targetType, entityTypes, complexTypes);
+        return;
+      }
+
+      // V4 collections of primitive values
+      result[name] = Array.isArray(value)
+        ? value.map(item => this.normalizeValue(item, type))
+        : this.normalizeValue(value, property?.type);
     });
+
+    return result;
+  }
+
+  private normalizeValue(value: unknown, type?: string): unknown {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    // V2 JSON dates: /Date(1700000000000)/ or /Date(1700000000000+0060)/
+    const jsonDate = /^\/Date\((-?\d+)([+-]\d{4})?\)\/$/.exec(value);
+    if (jsonDate && (!type || type === 'Edm.DateTime' || type === 'Edm.DateTimeOffset')) {
+      return new Date(Number(jsonDate[1])).toISOString();
+    }
+
+    if (type === 'Edm.Decimal' && /^[-+]?\d+(\.\d+)?$/.test(value)) {
+      const number = Number(value);
+      const canonical = (text: string) =>
+        text
+          .replace(/^\+/, '')
+          .replace(/^(-?)0+(?=\d)/, '$1')
+          .replace(/(\.\d*?)0+$/, '$1')
+          .replace(/\.$/, '');
+      return canonical(String(number)) === canonical(value) ? number : value;
+    }
+
+    return value;
+  }
+
+  /**
+   * Re-read the entity after a failed precondition so the caller can see the server version
+   */
+  private async attachCurrentVersion(
+    error: SAPConcurrencyError,
+    url: string,
+    jwt?: string
+  ): Promise<void> {
+    try {
+      const current = await this.executeRequest({
+        url: url.split('?')[0],
+        method: 'GET',
+        jwt,
+        context: { type: 'runtime', operation: 'read' },
+      });
+      const data = current.data as Record<string, unknown> | undefined;
+      error.currentVersion = data?.d ?? data;
+      error.currentEtag = this.extractETag(current);
+    } catch (readError) {
+      this.logger.warn(`Failed to read current version after 412 for ${url}:`, readError);
+    }
   }
 
   /**
@@ -280,40 +1311,34 @@ export class SAPClient {
   clearDestinationCache(): void {
     this.designTimeDestination = null;
     this.runtimeDestination = null;
+    this.csrfTokens.clear();
     this.logger.info('Destination cache cleared');
   }
 
+  /**
+   * Map an HTTP error response to a typed error
+   * Gateway error bodies become SAPBusinessError with their messages (errordetails / details)
+   */
   private handleError(error: unknown): Error {
-    if (
-      typeof error === 'object' &&
-      error !== null &&
-      'rootCause' in error &&
-      (
-        error as {
-          rootCause?: {
-            response?: {
-              status: number;
-              data?: { error?: { message?: string } };
-              statusText?: string;
-            };
-          };
-        }
-      ).rootCause?.response
-    ) {
-      const response = (
-        error as {
-          rootCause: {
-            response: {
-              status: number;
-              data?: { error?: { message?: string } };
-              statusText?: string;
-            };
-          };
-        }
-      ).rootCause.response;
-      return new Error(
-        `SAP API Error ${response.status}: ${response.data?.error?.message || response.statusText}`
-      );
+    const response = (error as { rootCause?: { response?: ErrorResponse } } | undefined)?.rootCause
+      ?.response;
+    if (response) {
+      if (response.status === 412) {
+        return new SAPConcurrencyError(
+          'Concurrent modification: the entity was changed since it was read (If-Match precondition failed)'
+        );
+      }
+
+      const parsed = SAPMessageUtils.parseErrorBody(response.data);
+      if (parsed) {
+        return new SAPBusinessError(
+          `SAP API Error ${response.status}: ${parsed.message || response.statusText}`,
+          response.status,
+          parsed.code,
+          parsed.messages
+        );
+      }
+      return new Error(`SAP API Error ${response.status}: ${response.statusText}`);
     }
     return error instanceof Error ? error : new Error(String(error));
   }
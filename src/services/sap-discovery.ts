@@ -2,10 +2,26 @@ import { executeHttpRequest } from '@sap-cloud-sdk/http-client';
 import { SAPClient } from './sap-client.js';
 import { Logger } from '../utils/logger.js';
 import { Config } from '../utils/config.js';
-import { ODataService, EntityType, ServiceMetadata } from '../types/sap-types.js';
+import { MetadataCache } from '../utils/metadata-cache.js';
+import {
+  ODataService,
+  EntityType,
+  ServiceMetadata,
+  NavigationProperty,
+  Property,
+  ComplexType,
+  EnumType,
+  Association,
+  AssociationSet,
+  ServiceOperation,
+  OperationParameter,
+} from '../types/sap-types.js';
 
 import { JSDOM } from 'jsdom';
 
+// In-flight $metadata requests, shared by the discovery services of all MCP sessions
+const metadataLoads = new WeakMap<ODataService, Promise<ServiceMetadata | null>>();
+
 export class SAPDiscoveryService {
   private catalogEndpoints = [
     '/sap/opu/odata4/iwfnd/config/default/iwfnd/catalog/0002/ServiceGroups?$expand=DefaultSystem($expand=Services)',
@@ -26,15 +42,12 @@ export class SAPDiscoveryService {
       const filterConfig = this.config.getServiceFilterConfig();
       this.logger.info('OData service discovery configuration:', filterConfig);
 
-      // Try OData V4 catalog first
-      // const v4Services = await this.discoverV4Services();
-      // services.push(...v4Services);
-
-      // Fallback to V2 service discovery
-      if (services.length === 0) {
-        const v2Services = await this.discoverV2Services();
-        services.push(...v2Services);
-      }
+      // Both catalogs are queried, a system without V4 catalog just contributes no V4 services
+      const [v4Services, v2Services] = await Promise.all([
+        this.discoverV4Services(),
+        this.discoverV2Services(),
+      ]);
+      services.push(...this.mergeCatalogs(v4Services, v2Services));
 
       // Apply service filtering based on configuration
       const filteredServices = this.filterServices(services);
@@ -53,15 +66,15 @@ export class SAPDiscoveryService {
       }
 
       // Enrich services with metadata
-      for (const service of limitedServices) {
-        try {
-          this.logger.debug(
-            `Discovering metadata for service: ${service.id} at ${service.metadataUrl}`
-          );
-          service.metadata = await this.getServiceMetadata(service);
-        } catch (error) {
-          this.logger.warn(`Failed to get metadata for service ${service.id}:`, error);
-        }
+      limitedServices.forEach(service => {
+        service.metadataStatus = { state: 'pending', updatedAt: new Date().toISOString() };
+      });
+      if (this.config.get<string>('odata.metadataLoading', 'eager') === 'lazy') {
+        this.logger.info(
+          `Metadata of ${limitedServices.length} services is loaded on first use (ODATA_METADATA_LOADING=lazy)`
+        );
+      } else {
+        await this.loadAllMetadata(limitedServices);
       }
 
       this.logger.info(`Successfully initialized ${limitedServices.length} OData services`);
@@ -94,6 +107,31 @@ export class SAPDiscoveryService {
     return filteredServices;
   }
 
+  /**
+   * One entry per technical service name and version: a service published in several V4 service
+   * groups is listed once, and the V4 variant takes precedence over a V2 service of the same name
+   */
+  private mergeCatalogs(v4Services: ODataService[], v2Services: ODataService[]): ODataService[] {
+    const merged = new Map<string, ODataService>();
+    [...v4Services, ...v2Services].forEach(service => {
+      // V2 versions are plain numbers (1), V4 versions zero-padded (0001)
+      const key = `${(service.technicalName || service.id).toUpperCase()}|${Number(service.version)}`;
+      const existing = merged.get(key);
+      if (existing) {
+        this.logger.debug(
+          `Skipping ${service.odataVersion} service ${service.id} (${service.url}): already discovered as ${existing.odataVersion} service at ${existing.url}`
+        );
+        return;
+      }
+      merged.set(key, service);
+    });
+
+    this.logger.info(
+      `Discovered ${v4Services.length} V4 and ${v2Services.length} V2 catalog entries, ${merged.size} unique services`
+    );
+    return Array.from(merged.values());
+  }
+
   private async discoverV4Services(): Promise<ODataService[]> {
     try {
       const destination = await this.sapClient.getDestination({
@@ -142,10 +180,13 @@ export class SAPDiscoveryService {
     interface Service {
       ServiceId: string;
       ServiceVersion?: string;
+      ServiceUrl?: string;
       Title?: string;
       Description?: string;
     }
     interface ServiceGroup {
+      GroupId?: string;
+      RepositoryId?: string;
       DefaultSystem?: { Services?: Service[] };
     }
     const services: ODataService[] = [];
@@ -154,14 +195,28 @@ export class SAPDiscoveryService {
       value.forEach(serviceGroup => {
         if (serviceGroup.DefaultSystem?.Services) {
           serviceGroup.DefaultSystem.Services.forEach(service => {
+            const version = service.ServiceVersion || '0001';
+            const url = this.getV4ServiceUrl(
+              serviceGroup,
+              service.ServiceId,
+              version,
+              service.ServiceUrl
+            );
+            if (!url) {
+              this.logger.warn(
+                `Skipping V4 service ${service.ServiceId}: service group has no GroupId/RepositoryId`
+              );
+              return;
+            }
             services.push({
               id: service.ServiceId,
-              version: service.ServiceVersion || '0001',
+              version,
               title: service.Title || service.ServiceId,
               description: service.Description || `OData service ${service.ServiceId}`,
               odataVersion: 'v4',
-              url: `/sap/opu/odata4/sap/${service.ServiceId.toLowerCase()}/${service.ServiceVersion || '0001'}/`,
-              metadataUrl: `/sap/opu/odata4/sap/${service.ServiceId.toLowerCase()}/${service.ServiceVersion || '0001'}/$metadata`,
+              technicalName: service.ServiceId,
+              url,
+              metadataUrl: `${url}$metadata`,
               entitySets: [],
               metadata: null,
             });
@@ -172,6 +227,32 @@ export class SAPDiscoveryService {
     return services;
   }
 
+  /**
+   * V4 service root: /sap/opu/odata4/<service group>/<repository>/<service>/<version>/
+   * The catalog's ServiceUrl is used when it is a path below /sap/opu/odata4/
+   */
+  private getV4ServiceUrl(
+    serviceGroup: { GroupId?: string; RepositoryId?: string },
+    serviceId: string,
+    version: string,
+    serviceUrl?: string
+  ): string | undefined {
+    const path = serviceUrl?.startsWith('http') ? new URL(serviceUrl).pathname : serviceUrl;
+    if (path?.startsWith('/sap/opu/odata4/')) {
+      return path.endsWith('/') ? path : `${path}/`;
+    }
+    if (!serviceGroup.GroupId || !serviceGroup.RepositoryId) {
+      return undefined;
+    }
+
+    // Names in a customer namespace (/NS/NAME) become ns/name, all others live in sap/
+    const segment = (name: string) => {
+      const namespaced = /^\/([^/]+)\/(.+)$/.exec(name);
+      return (namespaced ? `${namespaced[1]}/${namespaced[2]}` : `sap/${name}`).toLowerCase();
+    };
+    return `/sap/opu/odata4/${segment(serviceGroup.GroupId)}/${serviceGroup.RepositoryId.toLowerCase()}/${segment(serviceId)}/${version}/`;
+  }
+
   private parseV2CatalogResponse(catalogData: unknown): ODataService[] {
     interface V2Service {
       ID: string;
@@ -192,6 +273,7 @@ export class SAPDiscoveryService {
           title: service.Title || service.ID,
           description: service.Description || `OData service ${service.ID}`,
           odataVersion: 'v2',
+          technicalName: service.TechnicalServiceName,
           url: baseURL,
           metadataUrl: `${baseURL}$metadata`,
           entitySets: [],
@@ -202,77 +284,262 @@ export class SAPDiscoveryService {
     return services;
   }
 
-  private async getServiceMetadata(service: ODataService): Promise<ServiceMetadata> {
+  /**
+   * Load the $metadata of a service unless it is loaded already, concurrent callers share one request
+   * Failures are recorded in metadataStatus and retried on the next call
+   */
+  async ensureMetadata(service: ODataService): Promise<ServiceMetadata | null> {
+    if (service.metadata) {
+      return service.metadata;
+    }
+
+    let load = metadataLoads.get(service);
+    if (!load) {
+      this.logger.debug(
+        `Discovering metadata for service: ${service.id} at ${service.metadataUrl}`
+      );
+      load = this.getServiceMetadata(service)
+        .then(
+          ({ metadata, stale }) => {
+            service.metadata = metadata;
+            service.metadataStatus = {
+              state: 'loaded',
+              updatedAt: new Date().toISOString(),
+              ...(stale && { stale: true, error: stale.error, cachedAt: stale.cachedAt }),
+            };
+            return metadata;
+          },
+          error => {
+            service.metadataStatus = {
+              state: 'failed',
+              error: error instanceof Error ? error.message : String(error),
+              updatedAt: new Date().toISOString(),
+            };
+            return null;
+          }
+        )
+        .finally(() => metadataLoads.delete(service));
+      metadataLoads.set(service, load);
+    }
+    return load;
+  }
+
+  /**
+   * Load the $metadata of all services with at most ODATA_METADATA_CONCURRENCY requests in flight
+   */
+  private async loadAllMetadata(services: ODataService[]): Promise<void> {
+    const configured = this.config.get<number>('odata.metadataConcurrency', 5);
+    if (!Number.isFinite(configured)) {
+      this.logger.warn('Ignoring ODATA_METADATA_CONCURRENCY: not a number, using 5');
+    }
+    // NaN would start no worker at all and silently skip every $metadata request
+    const concurrency = Math.max(1, Number.isFinite(configured) ? configured : 5);
+    const queue = [...services];
+    const worker = async () => {
+      for (let service = queue.shift(); service; service = queue.shift()) {
+        await this.ensureMetadata(service);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+    const failed = services.filter(service => service.metadataStatus?.state === 'failed').length;
+    this.logger.info(
+      `Loaded metadata of ${services.length - failed} services${failed > 0 ? `, ${failed} failed` : ''} (concurrency ${concurrency})`
+    );
+  }
+
+  /**
+   * Metadata revalidated against the persistent cache: a 304 reuses the cached copy, and when the
+   * backend cannot be reached the cached copy is served as stale instead of failing
+   */
+  private async getServiceMetadata(
+    service: ODataService
+  ): Promise<{ metadata: ServiceMetadata; stale?: { error: string; cachedAt: string } }> {
+    const metadataCache = MetadataCache.getInstance();
+    const destinationName = this.config.getDesignTimeDestination();
+    const cached = await metadataCache.get(destinationName, service.metadataUrl);
+
     try {
       const destination = await this.sapClient.getDestination({
         type: 'design-time',
         operation: 'discovery',
       });
 
-      const response = await executeHttpRequest(destination, {
-        method: 'GET',
-        url: service.metadataUrl,
-        headers: {
-          Accept: 'application/xml',
-        },
-      });
-      return this.parseMetadata(response.data, service.odataVersion);
+      const headers: Record<string, string> = { Accept: 'application/xml' };
+      if (cached?.etag) {
+        headers['If-None-Match'] = cached.etag;
+      }
+      if (cached?.lastModified) {
+        headers['If-Modified-Since'] = cached.lastModified;
+      }
+
+      let response;
+      try {
+        response = await executeHttpRequest(destination, {
+          method: 'GET',
+          url: service.metadataUrl,
+          headers,
+        });
+      } catch (error) {
+        if (cached && this.getResponseStatus(error) === 304) {
+          this.logger.debug(`Metadata of service ${service.id} not modified, using cached copy`);
+          return { metadata: cached.metadata };
+        }
+        throw error;
+      }
+
+      const metadata = this.parseMetadata(response.data, service.odataVersion);
+      if (metadataCache.enabled) {
+        const responseHeaders = (response.headers || {}) as Record<string, unknown>;
+        await metadataCache.set(destinationName, service.metadataUrl, {
+          metadata,
+          etag: this.getHeader(responseHeaders, 'etag'),
+          lastModified: this.getHeader(responseHeaders, 'last-modified'),
+        });
+      }
+      return { metadata };
     } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (cached && this.isUnreachable(error)) {
+        this.logger.warn(
+          `Backend unreachable for metadata of service ${service.id}, using cached copy from ${cached.storedAt}: ${reason}`
+        );
+        return { metadata: cached.metadata, stale: { error: reason, cachedAt: cached.storedAt } };
+      }
       this.logger.error(`Failed to get metadata for service ${service.id}:`, error);
       throw error;
     }
   }
 
+  /**
+   * HTTP status of a failed request, the Cloud SDK wraps the axios error
+   */
+  private getResponseStatus(error: unknown): number | undefined {
+    const err = error as {
+      response?: { status?: number };
+      rootCause?: { response?: { status?: number } };
+    };
+    return err?.rootCause?.response?.status ?? err?.response?.status;
+  }
+
+  /**
+   * No answer from the backend or a gateway error: 4xx answers mean the cached copy may be wrong
+   */
+  private isUnreachable(error: unknown): boolean {
+    const status = this.getResponseStatus(error);
+    return status === undefined || status >= 500;
+  }
+
+  private getHeader(headers: Record<string, unknown>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+    const value = key ? headers[key] : undefined;
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
   private parseMetadata(metadataXml: string, odataVersion: string): ServiceMetadata {
-    const dom = new JSDOM(metadataXml);
+    // Parse as XML: HTML mode lowercases names and nests self-closing elements
+    const dom = new JSDOM(metadataXml, { contentType: 'text/xml' });
     const xmlDoc = dom.window.document;
+    const qualify = this.createTypeQualifier(xmlDoc);
 
     const entitySets = this.extractEntitySets(xmlDoc);
-    const entityTypes = this.extractEntityTypes(xmlDoc, entitySets);
+    const associations = this.extractAssociations(xmlDoc, qualify);
+    const entityTypes = this.extractEntityTypes(
+      xmlDoc,
+      entitySets,
+      associations,
+      qualify,
+      odataVersion
+    );
+    const complexTypes = this.extractComplexTypes(xmlDoc, associations, qualify);
+    // Before inheritance, so derived types share the annotated properties of their base type
+    this.applyAnnotations(xmlDoc, [...entityTypes, ...complexTypes], qualify);
+    this.applyInheritance(entityTypes);
+    this.applyInheritance(complexTypes);
+    const operations =
+      odataVersion === 'v4'
+        ? this.extractV4Operations(xmlDoc, entityTypes, qualify)
+        : this.extractV2FunctionImports(xmlDoc, qualify);
+    this.applyDraftInfo(xmlDoc, entityTypes, operations);
 
     return {
       entityTypes,
       entitySets,
+      complexTypes,
+      enumTypes: this.extractEnumTypes(xmlDoc),
+      associations,
+      associationSets: this.extractAssociationSets(xmlDoc, qualify),
+      operations,
       version: odataVersion,
       namespace: this.extractNamespace(xmlDoc),
     };
   }
 
+  /**
+   * Replaces schema aliases (V4 <Schema Alias>) in type references by the namespace
+   */
+  private createTypeQualifier(xmlDoc: Document): (type: string) => string {
+    const aliases = new Map<string, string>();
+    xmlDoc.querySelectorAll('Schema').forEach((schema: Element) => {
+      const alias = schema.getAttribute('Alias');
+      const namespace = schema.getAttribute('Namespace');
+      if (alias && namespace) {
+        aliases.set(alias, namespace);
+      }
+    });
+
+    return type =>
+      type.replace(/^(Collection\()?([^.()]+)\./, (match, collection = '', prefix) =>
+        aliases.has(prefix) ? `${collection}${aliases.get(prefix)}.` : match
+      );
+  }
+
   private extractEntityTypes(
     xmlDoc: Document,
-    entitySets: Array<{ [key: string]: string | null }>
+    entitySets: Array<{ [key: string]: string | null }>,
+    associations: Association[],
+    qualify: (type: string) => string,
+    odataVersion: string
   ): EntityType[] {
     const entityTypes: EntityType[] = [];
     const nodes = xmlDoc.querySelectorAll('EntityType');
 
     nodes.forEach((node: Element) => {
+      // EntityType references are namespace-qualified, and namespaces may contain dots
+      const namespace = node.closest('Schema')?.getAttribute('Namespace') || '';
       const entitySet = entitySets.find(
-        entitySet => entitySet.entitytype?.split('.')[1] === node.getAttribute('Name')
+        entitySet =>
+          qualify(entitySet.entitytype || '') === `${namespace}.${node.getAttribute('Name')}`
       );
+      const baseType = node.getAttribute('BaseType');
+      // V4 has no sap:* attributes: entity sets are writable unless Capabilities restrictions
+      // (see applyAnnotations) say otherwise
+      const capability = (value?: string | null) =>
+        value ? value.toLowerCase() === 'true' : odataVersion === 'v4' && !!entitySet;
       const entityType: EntityType = {
         name: node.getAttribute('Name') || '',
-        namespace: node.parentElement?.getAttribute('Namespace') || '',
+        namespace,
         entitySet: entitySet?.name,
-        creatable: entitySet?.creatable?.toLowerCase() === 'true',
-        updatable: entitySet?.updatable?.toLowerCase() === 'true',
-        deletable: entitySet?.deletable?.toLowerCase() === 'true',
-        addressable: entitySet?.addressable?.toLowerCase() === 'true',
-        properties: [],
-        navigationProperties: [],
+        baseType: baseType ? qualify(baseType) : undefined,
+        creatable: capability(entitySet?.creatable),
+        updatable: capability(entitySet?.updatable),
+        deletable: capability(entitySet?.deletable),
+        addressable: capability(entitySet?.addressable),
+        // V4 HasStream, V2 m:HasStream
+        hasStream: [node.getAttribute('HasStream'), node.getAttribute('m:HasStream')].some(
+          value => value?.toLowerCase() === 'true'
+        ),
+        label: node.getAttribute('sap:label') ?? entitySet?.label ?? undefined,
+        requiresFilter: entitySet?.['requires-filter']?.toLowerCase() === 'true' || undefined,
+        properties: this.childElements(node, 'Property').map(propNode =>
+          this.extractProperty(propNode, qualify)
+        ),
+        navigationProperties: this.childElements(node, 'NavigationProperty').map(navNode =>
+          this.extractNavigationProperty(navNode, associations, qualify)
+        ),
         keys: [],
       };
 
-      // Extract properties
-      const propNodes = node.querySelectorAll('Property');
-      propNodes.forEach((propNode: Element) => {
-        entityType.properties.push({
-          name: propNode.getAttribute('Name') || '',
-          type: propNode.getAttribute('Type') || '',
-          nullable: propNode.getAttribute('Nullable') !== 'false',
-          maxLength: propNode.getAttribute('MaxLength') ?? undefined,
-        });
-      });
-
       // Extract keys
       const keyNodes = node.querySelectorAll('Key PropertyRef');
       keyNodes.forEach((keyNode: Element) => {
@@ -285,6 +552,429 @@ export class SAPDiscoveryService {
     return entityTypes;
   }
 
+  private extractComplexTypes(
+    xmlDoc: Document,
+    associations: Association[],
+    qualify: (type: string) => string
+  ): ComplexType[] {
+    return Array.from(xmlDoc.querySelectorAll('ComplexType')).map(node => {
+      const baseType = node.getAttribute('BaseType');
+      return {
+        name: node.getAttribute('Name') || '',
+        namespace: node.closest('Schema')?.getAttribute('Namespace') || '',
+        baseType: baseType ? qualify(baseType) : undefined,
+        properties: this.childElements(node, 'Property').map(propNode =>
+          this.extractProperty(propNode, qualify)
+        ),
+        navigationProperties: this.childElements(node, 'NavigationProperty').map(navNode =>
+          this.extractNavigationProperty(navNode, associations, qualify)
+        ),
+      };
+    });
+  }
+
+  private extractEnumTypes(xmlDoc: Document): EnumType[] {
+    return Array.from(xmlDoc.querySelectorAll('EnumType')).map(node => ({
+      name: node.getAttribute('Name') || '',
+      namespace: node.closest('Schema')?.getAttribute('Namespace') || '',
+      underlyingType: node.getAttribute('UnderlyingType') || 'Edm.Int32',
+      isFlags: node.getAttribute('IsFlags') === 'true',
+      // Without explicit values members are numbered from 0 in declaration order
+      members: this.childElements(node, 'Member').map((member, index) => ({
+        name: member.getAttribute('Name') || '',
+        value: member.hasAttribute('Value') ? Number(member.getAttribute('Value')) : index,
+      })),
+    }));
+  }
+
+  private extractProperty(node: Element, qualify: (type: string) => string): Property {
+    const precision = node.getAttribute('Precision');
+    const scale = node.getAttribute('Scale');
+    return {
+      name: node.getAttribute('Name') || '',
+      type: qualify(node.getAttribute('Type') || ''),
+      nullable: node.getAttribute('Nullable') !== 'false',
+      maxLength: node.getAttribute('MaxLength') ?? undefined,
+      precision: precision ? parseInt(precision) : undefined,
+      // V4 also allows the symbolic values variable and floating
+      scale: scale
+        ? /^\d+$/.test(scale)
+          ? parseInt(scale)
+          : (scale.toLowerCase() as Property['scale'])
+        : undefined,
+      defaultValue: node.getAttribute('DefaultValue') ?? undefined,
+      // V2 annotation attributes, V4 vocabulary annotations are applied by applyAnnotations
+      label: node.getAttribute('sap:label') ?? undefined,
+      filterable: node.getAttribute('sap:filterable') !== 'false',
+      sortable: node.getAttribute('sap:sortable') !== 'false',
+      requiredInFilter: node.getAttribute('sap:required-in-filter') === 'true' || undefined,
+      creatable: node.getAttribute('sap:creatable') !== 'false',
+      updatable: node.getAttribute('sap:updatable') !== 'false',
+      unit: node.getAttribute('sap:unit') ?? undefined,
+      text: node.getAttribute('sap:text') ?? undefined,
+      displayFormat: node.getAttribute('sap:display-format') ?? undefined,
+    };
+  }
+
+  /**
+   * V4 declares target type, cardinality and referential constraints on the navigation property,
+   * V2 through the ends and the ReferentialConstraint of the referenced Association
+   */
+  private extractNavigationProperty(
+    node: Element,
+    associations: Association[],
+    qualify: (type: string) => string
+  ): NavigationProperty {
+    const name = node.getAttribute('Name') || '';
+    const type = node.getAttribute('Type');
+
+    if (type) {
+      const isCollection = type.startsWith('Collection(');
+      return {
+        name,
+        type: qualify(type.replace(/^Collection\((.*)\)$/, '$1')),
+        multiplicity: isCollection ? '*' : node.getAttribute('Nullable') === 'false' ? '1' : '0..1',
+        referentialConstraints: this.childElements(node, 'ReferentialConstraint').map(
+          constraint => ({
+            property: constraint.getAttribute('Property') || '',
+            referencedProperty: constraint.getAttribute('ReferencedProperty') || '',
+          })
+        ),
+        partner: node.getAttribute('Partner') ?? undefined,
+        containsTarget: node.getAttribute('ContainsTarget') === 'true' || undefined,
+      };
+    }
+
+    const relationship = qualify(node.getAttribute('Relationship') || '');
+    const association = associations.find(
+      candidate => `${candidate.namespace}.${candidate.name}` === relationship
+    );
+    const end = association?.ends.find(candidate => candidate.role === node.getAttribute('ToRole'));
+
+    // Orient the constraint from this entity type (FromRole) to the target
+    const constraint = association?.referentialConstraint;
+    const [sourceProperties, targetProperties] = !constraint
+      ? [[], []]
+      : constraint.principalRole === node.getAttribute('FromRole')
+        ? [constraint.principalProperties, constraint.dependentProperties]
+        : [constraint.dependentProperties, constraint.principalProperties];
+
+    return {
+      name,
+      type: end?.type || '',
+      multiplicity: end?.multiplicity || '*',
+      referentialConstraints: sourceProperties.map((property, index) => ({
+        property,
+        referencedProperty: targetProperties[index] || '',
+      })),
+      relationship,
+    };
+  }
+
+  private extractAssociations(xmlDoc: Document, qualify: (type: string) => string): Association[] {
+    const propertyRefs = (node?: Element) =>
+      node
+        ? this.childElements(node, 'PropertyRef').map(ref => ref.getAttribute('Name') || '')
+        : [];
+
+    return Array.from(xmlDoc.querySelectorAll('Association')).map(node => {
+      const constraint = this.childElements(node, 'ReferentialConstraint')[0];
+      const principal = constraint && this.childElements(constraint, 'Principal')[0];
+      const dependent = constraint && this.childElements(constraint, 'Dependent')[0];
+
+      return {
+        name: node.getAttribute('Name') || '',
+        namespace: node.closest('Schema')?.getAttribute('Namespace') || '',
+        ends: this.childElements(node, 'End').map(end => ({
+          role: end.getAttribute('Role') || '',
+          type: qualify(end.getAttribute('Type') || ''),
+          multiplicity: (end.getAttribute('Multiplicity') ||
+            '*') as NavigationProperty['multiplicity'],
+        })),
+        referentialConstraint:
+          principal && dependent
+            ? {
+                principalRole: principal.getAttribute('Role') || '',
+                principalProperties: propertyRefs(principal),
+                dependentRole: dependent.getAttribute('Role') || '',
+                dependentProperties: propertyRefs(dependent),
+              }
+            : undefined,
+      };
+    });
+  }
+
+  private extractAssociationSets(
+    xmlDoc: Document,
+    qualify: (type: string) => string
+  ): AssociationSet[] {
+    return Array.from(xmlDoc.querySelectorAll('AssociationSet')).map(node => ({
+      name: node.getAttribute('Name') || '',
+      association: qualify(node.getAttribute('Association') || ''),
+      ends: this.childElements(node, 'End').map(end => ({
+        role: end.getAttribute('Role') || '',
+        entitySet: end.getAttribute('EntitySet') || '',
+      })),
+    }));
+  }
+
+  /**
+   * Apply vocabulary annotations (Common, UI, Measures, Core, Capabilities) to types and properties
+   * Entity-level annotations may target the entity type or its entity set (Container/EntitySet)
+   */
+  private applyAnnotations(
+    xmlDoc: Document,
+    types: Array<EntityType | ComplexType>,
+    qualify: (type: string) => string
+  ): void {
+    const index = this.indexAnnotations(xmlDoc, qualify);
+    const containers = Array.from(xmlDoc.querySelectorAll('EntityContainer')).map(
+      container =>
+        `${container.closest('Schema')?.getAttribute('Namespace')}.${container.getAttribute('Name')}`
+    );
+
+    types.forEach(type => {
+      const qualifiedName = `${type.namespace}.${type.name}`;
+
+      type.properties.forEach(prop => {
+        const terms = index.get(`${qualifiedName}/${prop.name}`);
+        if (!terms) {
+          return;
+        }
+        const label = terms.get('Common.Label');
+        const text = terms.get('Common.Text');
+        const unit = terms.get('Measures.Unit') || terms.get('Measures.ISOCurrency');
+        prop.label = (label && this.getAnnotationValue(label, ['String'])) ?? prop.label;
+        prop.text = (text && this.getAnnotationValue(text, ['Path'])) ?? prop.text;
+        prop.unit = (unit && this.getAnnotationValue(unit, ['Path', 'String'])) ?? prop.unit;
+        if (this.isAnnotationTrue(terms.get('Core.Computed'))) {
+          prop.creatable = false;
+          prop.updatable = false;
+        }
+        if (this.isAnnotationTrue(terms.get('Core.Immutable'))) {
+          prop.updatable = false;
+        }
+      });
+
+      if (!('keys' in type)) {
+        return;
+      }
+      const terms = new Map([
+        ...(index.get(qualifiedName) || []),
+        ...containers.flatMap(container => [
+          ...(index.get(`${container}/${type.entitySet}`) || []),
+        ]),
+      ]);
+      const property = (name: string) => type.properties.find(prop => prop.name === name);
+
+      const label = terms.get('Common.Label');
+      type.label = (label && this.getAnnotationValue(label, ['String'])) ?? type.label;
+
+      const lineItem = terms.get('UI.LineItem');
+      if (lineItem) {
+        // DataField records, actions and other records without Value are skipped
+        type.lineItem = Array.from(lineItem.querySelectorAll('Record'))
+          .map(record => this.getRecordValue(record, 'Value'))
+          .map(value => value && this.getAnnotationValue(value, ['Path']))
+          .filter((path): path is string => !!path);
+      }
+      const selectionFields = terms.get('UI.SelectionFields');
+      if (selectionFields) {
+        type.selectionFields = this.getAnnotationPaths(selectionFields);
+      }
+
+      const filterRestrictions = terms.get('Capabilities.FilterRestrictions');
+      if (filterRestrictions) {
+        const record = filterRestrictions.querySelector('Record') || undefined;
+        if (!this.isAnnotationTrue(this.getRecordValue(record, 'Filterable'), true)) {
+          type.properties.forEach(prop => (prop.filterable = false));
+        }
+        if (this.isAnnotationTrue(this.getRecordValue(record, 'RequiresFilter'), false)) {
+          type.requiresFilter = true;
+        }
+        this.getAnnotationPaths(this.getRecordValue(record, 'RequiredProperties')).forEach(name => {
+          const prop = property(name);
+          if (prop) {
+            prop.requiredInFilter = true;
+          }
+        });
+        this.getAnnotationPaths(this.getRecordValue(record, 'NonFilterableProperties')).forEach(
+          name => {
+            const prop = property(name);
+            if (prop) {
+              prop.filterable = false;
+            }
+          }
+        );
+      }
+
+      const restrictions: Array<[string, string, 'creatable' | 'updatable' | 'deletable']> = [
+        ['Capabilities.InsertRestrictions', 'Insertable', 'creatable'],
+        ['Capabilities.UpdateRestrictions', 'Updatable', 'updatable'],
+        ['Capabilities.DeleteRestrictions', 'Deletable', 'deletable'],
+      ];
+      restrictions.forEach(([term, property, flag]) => {
+        const annotation = terms.get(term);
+        if (annotation) {
+          const record = annotation.querySelector('Record') || undefined;
+          type[flag] = this.isAnnotationTrue(this.getRecordValue(record, property), true);
+        }
+      });
+
+      const sortRestrictions = terms.get('Capabilities.SortRestrictions');
+      if (sortRestrictions) {
+        const record = sortRestrictions.querySelector('Record') || undefined;
+        if (!this.isAnnotationTrue(this.getRecordValue(record, 'Sortable'), true)) {
+          type.properties.forEach(prop => (prop.sortable = false));
+        }
+        this.getAnnotationPaths(this.getRecordValue(record, 'NonSortableProperties')).forEach(
+          name => {
+            const prop = property(name);
+            if (prop) {
+              prop.sortable = false;
+            }
+          }
+        );
+      }
+    });
+  }
+
+  /**
+   * Unqualified annotations by target and term, e.g. "NS.Type/Prop" -> "Common.Label" -> element
+   * Inline annotations are indexed under the target of their parent element, external ones
+   * (<Annotations Target>) win. Terms are keyed by vocabulary name whatever alias the service
+   * uses (SAP__common.Label, Common.Label and com.sap.vocabularies.Common.v1.Label are the same)
+   */
+  private indexAnnotations(
+    xmlDoc: Document,
+    qualify: (type: string) => string
+  ): Map<string, Map<string, Element>> {
+    // com.sap.vocabularies.Common.v1 -> Common, Org.OData.Capabilities.V1 -> Capabilities
+    const vocabularyName = (namespace: string) =>
+      namespace
+        .replace(/\.v\d+$/i, '')
+        .split('.')
+        .pop() || namespace;
+    const vocabularies = new Map<string, string>();
+    Array.from(xmlDoc.getElementsByTagNameNS('*', 'Include')).forEach(include => {
+      const alias = include.getAttribute('Alias');
+      if (alias) {
+        vocabularies.set(alias, vocabularyName(include.getAttribute('Namespace') || ''));
+      }
+    });
+    const termKey = (term: string) => {
+      const separator = term.lastIndexOf('.');
+      const prefix = term.slice(0, separator);
+      return `${vocabularies.get(prefix) ?? vocabularyName(prefix)}.${term.slice(separator + 1)}`;
+    };
+
+    const index = new Map<string, Map<string, Element>>();
+    const add = (target: string, parent: Element) => {
+      this.childElements(parent, 'Annotation')
+        // Qualified annotations are variants, e.g. UI.LineItem#Compact
+        .filter(annotation => !annotation.hasAttribute('Qualifier'))
+        .forEach(annotation => {
+          const terms = index.get(target) || new Map<string, Element>();
+          terms.set(termKey(annotation.getAttribute('Term') || ''), annotation);
+          index.set(target, terms);
+        });
+    };
+
+    xmlDoc.querySelectorAll('EntityType, ComplexType').forEach((type: Element) => {
+      const qualifiedName = `${type.closest('Schema')?.getAttribute('Namespace')}.${type.getAttribute('Name')}`;
+      add(qualifiedName, type);
+      this.childElements(type, 'Property').forEach(prop =>
+        add(`${qualifiedName}/${prop.getAttribute('Name')}`, prop)
+      );
+    });
+    xmlDoc.querySelectorAll('EntityContainer').forEach((container: Element) => {
+      const qualifiedName = `${container.closest('Schema')?.getAttribute('Namespace')}.${container.getAttribute('Name')}`;
+      this.childElements(container, 'EntitySet').forEach(entitySet =>
+        add(`${qualifiedName}/${entitySet.getAttribute('Name')}`, entitySet)
+      );
+    });
+    xmlDoc.querySelectorAll('Annotations').forEach((node: Element) => {
+      const [path, ...rest] = (node.getAttribute('Target') || '').split('/');
+      add([qualify(path), ...rest].join('/'), node);
+    });
+
+    return index;
+  }
+
+  /**
+   * Value of an annotation or property value, given as attribute or child element
+   */
+  private getAnnotationValue(node: Element, kinds: string[]): string | undefined {
+    for (const kind of kinds) {
+      const value = node.getAttribute(kind) ?? this.childElements(node, kind)[0]?.textContent;
+      if (value) {
+        return value.trim();
+      }
+    }
+    return undefined;
+  }
+
+  private getAnnotationPaths(node?: Element): string[] {
+    return Array.from(node?.querySelectorAll('PropertyPath, Path') || [])
+      .map(path => path.textContent?.trim() || '')
+      .filter(path => path.length > 0);
+  }
+
+  private getRecordValue(record: Element | undefined, property: string): Element | undefined {
+    return record
+      ? this.childElements(record, 'PropertyValue').find(
+          value => value.getAttribute('Property') === property
+        )
+      : undefined;
+  }
+
+  /**
+   * Boolean annotation value, tagging terms such as Core.Computed default to true
+   */
+  private isAnnotationTrue(node: Element | undefined, fallback = false): boolean {
+    if (!node) {
+      return fallback;
+    }
+    const value = this.getAnnotationValue(node, ['Bool']);
+    return value === undefined ? true : value.toLowerCase() !== 'false';
+  }
+
+  /**
+   * Add keys, properties and navigation properties inherited through the BaseType chain
+   */
+  private applyInheritance(types: Array<EntityType | ComplexType>): void {
+    const resolved = new Set<EntityType | ComplexType>();
+    const resolve = (type: EntityType | ComplexType, visiting: Set<EntityType | ComplexType>) => {
+      if (resolved.has(type) || visiting.has(type) || !type.baseType) {
+        return;
+      }
+      visiting.add(type);
+      const base = types.find(
+        candidate => `${candidate.namespace}.${candidate.name}` === type.baseType
+      );
+      if (base) {
+        resolve(base, visiting);
+        const own = (name: string) => type.properties.some(prop => prop.name === name);
+        type.properties = [...base.properties.filter(prop => !own(prop.name)), ...type.properties];
+        type.navigationProperties = [
+          ...base.navigationProperties.filter(
+            nav => !type.navigationProperties.some(ownNav => ownNav.name === nav.name)
+          ),
+          ...type.navigationProperties,
+        ];
+        if ('keys' in type && 'keys' in base && type.keys.length === 0) {
+          type.keys = [...base.keys];
+        }
+      }
+      resolved.add(type);
+    };
+    types.forEach(type => resolve(type, new Set()));
+  }
+
+  private childElements(node: Element, localName: string): Element[] {
+    return Array.from(node.children).filter(child => child.localName === localName);
+  }
+
   private extractEntitySets(xmlDoc: Document): Array<{ [key: string]: string | null }> {
     const entitySets: Array<{ [key: string]: string | null }> = [];
     const nodes = xmlDoc.querySelectorAll('EntitySet');
@@ -292,17 +982,19 @@ export class SAPDiscoveryService {
     nodes.forEach((node: Element) => {
       const entityset: { [key: string]: string | null } = {};
       [
-        'name',
-        'entitytype',
+        'Name',
+        'EntityType',
         'sap:creatable',
         'sap:updatable',
         'sap:deletable',
         'sap:pageable',
         'sap:addressable',
         'sap:content-version',
+        'sap:requires-filter',
+        'sap:label',
       ].forEach(attr => {
         const [namespace, name] = attr.split(':');
-        entityset[name || namespace] = node.getAttribute(attr);
+        entityset[(name || namespace).toLowerCase()] = node.getAttribute(attr);
       });
       if (entityset.name) {
         entitySets.push(entityset);
@@ -312,6 +1004,176 @@ export class SAPDiscoveryService {
     return entitySets;
   }
 
+  /**
+   * Draft-enabled entities have IsActiveEntity as key. Roots declare their lifecycle actions in a
+   * Common.DraftRoot annotation, V2 services without it follow the <EntitySet>Edit naming
+   */
+  private applyDraftInfo(
+    xmlDoc: Document,
+    entityTypes: EntityType[],
+    operations: ServiceOperation[]
+  ): void {
+    // Annotation target (entity type or Container/EntitySet) -> DraftRoot record values
+    const draftRoots = new Map<string, Record<string, string>>();
+    xmlDoc.querySelectorAll('Annotations').forEach((node: Element) => {
+      Array.from(node.children)
+        .filter(
+          child =>
+            child.localName === 'Annotation' &&
+            /(^|\.)DraftRoot$/.test(child.getAttribute('Term') || '')
+        )
+        .forEach(annotation => {
+          const values: Record<string, string> = {};
+          annotation.querySelectorAll('PropertyValue').forEach((property: Element) => {
+            const value = property.getAttribute('String') ?? property.textContent?.trim();
+            if (value) {
+              values[property.getAttribute('Property') || ''] = value;
+            }
+          });
+          draftRoots.set(node.getAttribute('Target') || '', values);
+        });
+    });
+
+    // Actions are referenced namespace-qualified
+    const operationName = (qualified?: string) => qualified?.split('.').pop();
+
+    entityTypes
+      .filter(entityType => entityType.keys.includes('IsActiveEntity'))
+      .forEach(entityType => {
+        const annotation = Array.from(draftRoots.entries()).find(([target]) =>
+          target.includes('/')
+            ? target.split('/').pop() === entityType.entitySet
+            : target.endsWith(`.${entityType.name}`)
+        )?.[1];
+        if (annotation) {
+          entityType.draft = {
+            root: true,
+            editAction: operationName(annotation.EditAction),
+            activationAction: operationName(annotation.ActivationAction),
+            preparationAction: operationName(annotation.PreparationAction),
+          };
+          return;
+        }
+
+        const byConvention = (suffix: string) =>
+          operations.find(operation => operation.name === `${entityType.entitySet}${suffix}`)?.name;
+        const editAction = byConvention('Edit');
+        const activationAction = byConvention('Activation');
+        entityType.draft =
+          editAction && activationAction
+            ? {
+                root: true,
+                editAction,
+                activationAction,
+                preparationAction: byConvention('Preparation'),
+              }
+            : { root: false };
+      });
+  }
+
+  /**
+   * V2 function imports: parameters are passed in the query string, HTTP method from m:HttpMethod
+   */
+  private extractV2FunctionImports(
+    xmlDoc: Document,
+    qualify: (type: string) => string
+  ): ServiceOperation[] {
+    const operations: ServiceOperation[] = [];
+
+    xmlDoc.querySelectorAll('FunctionImport').forEach((node: Element) => {
+      const httpMethod = (node.getAttribute('m:HttpMethod') || 'GET').toUpperCase();
+      operations.push({
+        name: node.getAttribute('Name') || '',
+        kind: httpMethod === 'GET' ? 'function' : 'action',
+        httpMethod: ['GET', 'POST', 'PUT', 'DELETE'].includes(httpMethod)
+          ? (httpMethod as ServiceOperation['httpMethod'])
+          : 'POST',
+        namespace: node.closest('Schema')?.getAttribute('Namespace') || '',
+        parameters: this.extractParameters(node, qualify),
+        returnType: node.hasAttribute('ReturnType')
+          ? qualify(node.getAttribute('ReturnType')!)
+          : undefined,
+        entitySet: node.getAttribute('EntitySet') ?? undefined,
+      });
+    });
+
+    return operations;
+  }
+
+  /**
+   * V4 actions and functions: bound operations are listed by name,
+   * unbound ones only when exposed through an ActionImport/FunctionImport
+   */
+  private extractV4Operations(
+    xmlDoc: Document,
+    entityTypes: EntityType[],
+    qualify: (type: string) => string
+  ): ServiceOperation[] {
+    const operations: ServiceOperation[] = [];
+
+    (['Action', 'Function'] as const).forEach(element => {
+      const kind = element === 'Action' ? 'action' : 'function';
+
+      xmlDoc.querySelectorAll(element).forEach((node: Element) => {
+        const namespace = node.closest('Schema')?.getAttribute('Namespace') || '';
+        const name = node.getAttribute('Name') || '';
+        // Binding parameter and return types may use the schema alias, e.g. SAP__self.Product
+        const parameters = this.extractParameters(node, qualify);
+        const returnNode = this.childElements(node, 'ReturnType')[0];
+        const returnType = returnNode?.hasAttribute('Type')
+          ? qualify(returnNode.getAttribute('Type')!)
+          : undefined;
+        const operation = {
+          kind,
+          httpMethod: kind === 'action' ? 'POST' : 'GET',
+          namespace,
+          returnType,
+        } as const;
+
+        if (node.getAttribute('IsBound') === 'true') {
+          const [bindingParameter, ...rest] = parameters;
+          if (!bindingParameter) return;
+          const isCollection = bindingParameter.type.startsWith('Collection(');
+          const entityType = bindingParameter.type.replace(/^Collection\((.*)\)$/, '$1');
+          operations.push({
+            ...operation,
+            name,
+            parameters: rest,
+            entitySet:
+              entityTypes.find(e => `${e.namespace}.${e.name}` === entityType)?.entitySet ??
+              undefined,
+            binding: { parameterName: bindingParameter.name, entityType, isCollection },
+          });
+          return;
+        }
+
+        const importElement = kind === 'action' ? 'ActionImport' : 'FunctionImport';
+        xmlDoc.querySelectorAll(importElement).forEach((importNode: Element) => {
+          if (qualify(importNode.getAttribute(element) || '') !== `${namespace}.${name}`) return;
+          operations.push({
+            ...operation,
+            name: importNode.getAttribute('Name') || name,
+            parameters,
+            entitySet: importNode.getAttribute('EntitySet') ?? undefined,
+          });
+        });
+      });
+    });
+
+    return operations;
+  }
+
+  private extractParameters(
+    node: Element,
+    qualify: (type: string) => string
+  ): OperationParameter[] {
+    return this.childElements(node, 'Parameter').map(child => ({
+      name: child.getAttribute('Name') || '',
+      type: qualify(child.getAttribute('Type') || ''),
+      nullable: child.getAttribute('Nullable') !== 'false',
+    }));
+  }
+
   private extractNamespace(xmlDoc: Document): string {
     const schemaNode = xmlDoc.querySelector('Schema');
     return schemaNode?.getAttribute('Namespace') || '';
@@ -147,6 +147,7 @@ export class NaturalQueryBuilderTool implements Tool {
       updatable: true,
       deletable: true,
       addressable: true,
+      hasStream: false,
     };
   }
 
@@ -1,16 +1,32 @@
 import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { SAPClient } from '../services/sap-client.js';
+import { SAPClient, CollectionReadOptions, CollectionReadResult } from '../services/sap-client.js';
+import { SAPDiscoveryService } from '../services/sap-discovery.js';
 import { Logger } from '../utils/logger.js';
-import { ODataService, EntityType } from '../types/sap-types.js';
+import { Config } from '../utils/config.js';
+import {
+  ODataService,
+  EntityType,
+  BatchOperation,
+  ServiceOperation,
+  SAPMessage,
+  DraftInfo,
+  Property,
+  ServiceMetadata,
+} from '../types/sap-types.js';
 import { MCPAuthManager } from '../middleware/mcp-auth.js';
 import { TokenStore } from '../services/token-store.js';
 import { SecureErrorHandler } from '../utils/secure-error-handler.js';
 import { DestinationContext, OperationType } from '../types/destination-types.js';
+import {
+  SAPBusinessError,
+  SAPConcurrencyError,
+  SAPRequestCancelledError,
+} from '../utils/sap-errors.js';
+import { ResponseCache, ResponseCacheOptions } from '../utils/response-cache.js';
+import { ODataLiteralUtils } from '../utils/odata-literals.js';
+import { ODataPagingUtils } from '../utils/odata-paging.js';
+import { CsdlUtils } from '../utils/csdl.js';
 import { z } from 'zod';
-import * as fs from 'fs';
-import * as path from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
 // Direct import approach to avoid TypeScript issues
 import {
   NaturalQueryBuilderTool,
@@ -27,30 +43,158 @@ import { IntelligentToolRouter } from '../middleware/intelligent-tool-router.js'
  * Instead of registering hundreds of CRUD tools upfront (5 ops × 40+ entities × services),
  * this registry uses a hierarchical discovery approach with core tools:
  *
- * Core SAP Tools (4):
+ * Core SAP Tools (7):
  * 1. search-sap-services - Find relevant services by category/keyword
  * 2. discover-service-entities - Show entities within a specific service
  * 3. get-entity-schema - Get detailed schema for an entity
  * 4. execute-entity-operation - Perform CRUD operations on any entity
+ * 5. execute-batch-operations - Run many CRUD operations in one $batch request
+ * 6. execute-service-operation - Invoke function imports, actions and functions
+ * 7. execute-media-operation - Download and upload binary content of media entities
  *
  * AI-Enhanced Tools (4 - Phase 2):
- * 5. natural-query-builder - Convert natural language to optimized queries
- * 6. smart-data-analysis - AI-powered data insights and recommendations
- * 7. query-performance-optimizer - Optimize queries using AI analysis
- * 8. business-process-insights - Analyze business processes for optimization
+ * 8. natural-query-builder - Convert natural language to optimized queries
+ * 9. smart-data-analysis - AI-powered data insights and recommendations
+ * 10. query-performance-optimizer - Optimize queries using AI analysis
+ * 11. business-process-insights - Analyze business processes for optimization
  *
  * Real-time Analytics Tools (4 - Phase 3):
- * 9. realtime-data-stream - WebSocket streaming with intelligent filtering
- * 10. kpi-dashboard-builder - Create and manage intelligent KPI dashboards
- * 11. predictive-analytics-engine - ML-powered forecasting and predictions
- * 12. business-intelligence-insights - Automated insights from data patterns
+ * 12. realtime-data-stream - WebSocket streaming with intelligent filtering
+ * 13. kpi-dashboard-builder - Create and manage intelligent KPI dashboards
+ * 14. predictive-analytics-engine - ML-powered forecasting and predictions
+ * 15. business-intelligence-insights - Automated insights from data patterns
  *
- * This reduces context from 200+ tools to just 12 intelligent tools, with AI and real-time
+ * This reduces context from 200+ tools to just 15 intelligent tools, with AI and real-time
  * capabilities that work across any MCP client (Claude, GPT, Gemini, local models, etc.).
  */
-// Get current file path for loading configuration
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+
+/**
+ * OData system query options accepted by the entity operation tools
+ */
+const queryOptionsSchema = z.object({
+  $filter: z.string().optional(),
+  $select: z.string().optional(),
+  $expand: z.string().optional(),
+  $orderby: z.string().optional(),
+  $top: z.number().optional(),
+  $skip: z.number().optional(),
+  $count: z
+    .boolean()
+    .optional()
+    .describe(
+      'Include the total number of matching records ($count=true in V4, $inlinecount in V2)'
+    ),
+  $apply: z
+    .string()
+    .optional()
+    .describe(
+      'V4 only: aggregation, e.g. groupby((Region),aggregate(Revenue with sum as TotalRevenue))'
+    ),
+  $search: z.string().optional().describe('V4 only: free-text search expression'),
+  $compute: z
+    .string()
+    .optional()
+    .describe('V4 only: computed properties, e.g. Price mul Quantity as Total'),
+});
+
+// Operations of the draft lifecycle, only for draft-enabled entities
+const DRAFT_OPERATIONS = ['draft-edit', 'draft-activate', 'draft-discard'];
+
+// DraftUUID key of the active instance of a V2 draft-enabled entity
+const ACTIVE_DRAFT_UUID = '00000000-0000-0000-0000-000000000000';
+
+// Query options that OData V2 does not define
+const V4_ONLY_QUERY_OPTIONS = ['$apply', '$search', '$compute'];
+
+// Transformations defined by the OData Data Aggregation extension
+const APPLY_TRANSFORMATIONS = [
+  'aggregate',
+  'groupby',
+  'filter',
+  'search',
+  'compute',
+  'concat',
+  'expand',
+  'orderby',
+  'top',
+  'skip',
+  'identity',
+  'nest',
+  'topcount',
+  'topsum',
+  'toppercent',
+  'bottomcount',
+  'bottomsum',
+  'bottompercent',
+  'ancestors',
+  'descendants',
+  'traverse',
+];
+
+/**
+ * One step of a navigation path, keys select a single entity of a to-many association
+ */
+const navigationSegmentSchema = z.object({
+  property: z.string().describe('Navigation property name, e.g. to_Item'),
+  keys: z
+    .record(z.unknown())
+    .optional()
+    .describe('Key properties of the target entity (only for to-many navigation properties)'),
+});
+
+type NavigationSegment = z.infer<typeof navigationSegmentSchema>;
+
+/**
+ * Entity type a read returns, its property paths are checked in $select, $orderby and $expand
+ */
+interface QueryTarget {
+  metadata: ServiceMetadata | null;
+  entityType: EntityType;
+}
+
+/**
+ * Navigation property used in a deep insert payload, with the ones nested below it
+ */
+interface DeepInsertNavigation {
+  property: string;
+  targetType: EntityType;
+  isCollection: boolean;
+  nested: DeepInsertNavigation[];
+}
+
+/**
+ * A single operation of the execute-batch-operations tool
+ */
+const batchOperationSchema = z.object({
+  id: z
+    .string()
+    .optional()
+    .describe('Reference for this operation in the results (defaults to its position)'),
+  entityName: z.string().describe('The entity name within the service'),
+  operation: z
+    .enum(['read', 'read-single', 'create', 'update', 'delete'])
+    .describe('The operation to perform'),
+  parameters: z
+    .record(z.unknown())
+    .optional()
+    .describe('Key properties and/or payload for the operation'),
+  queryOptions: queryOptionsSchema.optional().describe('OData query options (for read operations)'),
+  ifMatch: z.string().optional().describe('ETag for update/delete'),
+  changeset: z
+    .string()
+    .optional()
+    .describe(
+      'Changeset label: create/update/delete operations with the same label commit or roll back together'
+    ),
+  target: z
+    .string()
+    .optional()
+    .describe(
+      "Content-ID reference to an entity created earlier in the same changeset, e.g. '$1' (update/delete it) or '$1/to_Item' (create via navigation)"
+    ),
+});
+
+type BatchToolEntry = z.infer<typeof batchOperationSchema>;
 
 interface ProcessCategory {
   name: string;
@@ -71,6 +215,7 @@ export class HierarchicalSAPToolRegistry {
   private errorHandler: SecureErrorHandler;
   private intelligentRouter: IntelligentToolRouter;
   private processClassification?: ProcessClassification;
+  private discoveryService: SAPDiscoveryService;
 
   constructor(
     private mcpServer: McpServer,
@@ -87,6 +232,9 @@ export class HierarchicalSAPToolRegistry {
     // Initialize security middlewares
     this.errorHandler = new SecureErrorHandler(this.logger);
 
+    // Loads service metadata on first use when discovery ran with ODATA_METADATA_LOADING=lazy
+    this.discoveryService = new SAPDiscoveryService(this.sapClient, this.logger, new Config());
+
     // Initialize intelligent router
     this.intelligentRouter = new IntelligentToolRouter();
 
@@ -101,6 +249,31 @@ export class HierarchicalSAPToolRegistry {
     }
   }
 
+  /**
+   * Discovered service with its metadata, loaded on first use when discovery ran lazily
+   */
+  private async findService(serviceId: string): Promise<ODataService | undefined> {
+    const service = this.discoveredServices.find(s => s.id === serviceId);
+    if (service) {
+      await this.discoveryService.ensureMetadata(service);
+    }
+    return service;
+  }
+
+  /**
+   * Number of services per metadata state, stale counts loaded services served from the cache
+   */
+  private getMetadataSummary(): Record<string, number> {
+    const summary: Record<string, number> = { loaded: 0, pending: 0, failed: 0, stale: 0 };
+    this.discoveredServices.forEach(service => {
+      summary[service.metadataStatus?.state ?? (service.metadata ? 'loaded' : 'pending')]++;
+      if (service.metadataStatus?.stale) {
+        summary.stale++;
+      }
+    });
+    return summary;
+  }
+
   /**
    * Update the discovered services list and refresh resources
    * This is called when admin configuration filters are updated
@@ -125,7 +298,7 @@ export class HierarchicalSAPToolRegistry {
   }
 
   /**
-   * Register the 4 hierarchical discovery tools instead of 200+ individual CRUD tools
+   * Register the 7 hierarchical discovery and execution tools instead of 200+ individual CRUD tools
    */
   public async registerDiscoveryTools(): Promise<void> {
     this.logger.info(
@@ -208,31 +381,165 @@ export class HierarchicalSAPToolRegistry {
           serviceId: z.string().describe('The SAP service ID'),
           entityName: z.string().describe('The entity name within the service'),
           operation: z
-            .enum(['read', 'read-single', 'create', 'update', 'delete'])
-            .describe('The operation to perform'),
+            .enum([
+              'read',
+              'read-single',
+              'count',
+              'create',
+              'update',
+              'delete',
+              'draft-edit',
+              'draft-activate',
+              'draft-discard',
+            ])
+            .describe(
+              "The operation to perform ('count' returns only the number of records matching $filter). Draft-enabled entities are changed with 'draft-edit' (creates the draft), 'update' (patches the draft), then 'draft-activate' or 'draft-discard', passing the draft keys returned by 'draft-edit'; IsActiveEntity is filled in automatically"
+            ),
           parameters: z
             .record(z.any())
             .optional()
             .describe('Operation parameters (keys, filters, data, etc.)'),
-          queryOptions: z
-            .object({
-              $filter: z.string().optional(),
-              $select: z.string().optional(),
-              $expand: z.string().optional(),
-              $orderby: z.string().optional(),
-              $top: z.number().optional(),
-              $skip: z.number().optional(),
-            })
+          queryOptions: queryOptionsSchema
             .optional()
             .describe('OData query options (for read operations)'),
+          ifMatch: z
+            .string()
+            .optional()
+            .describe(
+              "ETag from 'read-single' for update/delete. The change is rejected if the entity was modified meanwhile."
+            ),
+          navigationPath: z
+            .array(navigationSegmentSchema)
+            .optional()
+            .describe(
+              "For reads: associations to follow from the entity identified by the keys in 'parameters', e.g. [{ property: 'to_Item' }]. Query options apply to the target."
+            ),
+          autoPaginate: z
+            .boolean()
+            .optional()
+            .describe(
+              'For reads: follow server-driven paging until all records (up to maxRecords) are read'
+            ),
+          maxRecords: z
+            .number()
+            .int()
+            .positive()
+            .optional()
+            .describe('Record ceiling for autoPaginate (capped by the server configuration)'),
+          cursor: z
+            .string()
+            .optional()
+            .describe('Cursor returned by a previous read, to fetch the next page'),
+          raw: z
+            .boolean()
+            .optional()
+            .describe(
+              'Return the unmodified OData V2/V4 payload instead of the normalized { items, count, nextCursor, etag } shape'
+            ),
+          refresh: z
+            .boolean()
+            .optional()
+            .describe('Bypass the response cache for reads and fetch live data from SAP'),
         },
       },
-      async (args: Record<string, unknown>) => {
-        return this.executeEntityOperation(args);
+      async (args: Record<string, unknown>, extra) => {
+        return this.executeEntityOperation(args, extra.signal);
+      }
+    );
+
+    // Tool 5: Execute several operations in a single $batch request
+    this.mcpServer.registerTool(
+      'execute-batch-operations',
+      {
+        title: 'Execute Batch Operations',
+        description:
+          'Run many read/create/update/delete operations on one SAP service in a single $batch round trip. Write operations can be grouped into atomic changesets that commit or roll back together. Returns status, data and error per operation. Requires authentication.',
+        inputSchema: {
+          serviceId: z.string().describe('The SAP service ID'),
+          operations: z
+            .array(batchOperationSchema)
+            .min(1)
+            .max(100)
+            .describe('Operations to execute, in order'),
+          atomic: z
+            .boolean()
+            .optional()
+            .describe(
+              'Put all write operations without an explicit changeset into one changeset (all-or-nothing)'
+            ),
+        },
+      },
+      async (args: Record<string, unknown>, extra) => {
+        return this.executeBatchOperations(args, extra.signal);
+      }
+    );
+
+    // Tool 6: Invoke function imports, actions and functions
+    this.mcpServer.registerTool(
+      'execute-service-operation',
+      {
+        title: 'Execute Service Operation',
+        description:
+          "Invoke a business operation that is not plain CRUD (V2 function import, V4 action or function), e.g. releasing a purchase order. Use 'discover-service-entities' to list the operations of a service. Parameters are type-checked against the metadata. Requires authentication.",
+        inputSchema: {
+          serviceId: z.string().describe('The SAP service ID'),
+          operationName: z
+            .string()
+            .describe('Name of the operation as listed by discover-service-entities'),
+          entityName: z
+            .string()
+            .optional()
+            .describe('Entity the operation is bound to (V4 bound actions/functions)'),
+          keys: z
+            .record(z.unknown())
+            .optional()
+            .describe('Key properties of the bound entity (omit for collection-bound operations)'),
+          parameters: z.record(z.unknown()).optional().describe('Operation parameters by name'),
+          ifMatch: z.string().optional().describe('ETag of the bound entity, if required'),
+        },
+      },
+      async (args: Record<string, unknown>, extra) => {
+        return this.executeServiceOperation(args, extra.signal);
+      }
+    );
+
+    // Tool 7: Download and upload binary content of media entities
+    this.mcpServer.registerTool(
+      'execute-media-operation',
+      {
+        title: 'Execute Media Operation',
+        description:
+          "Download or upload the binary content (/$value) of a media entity, e.g. attachments, print forms or product images. Only entities with 'media: true' in discover-service-entities support this. Downloads are returned as a blob resource. Requires authentication.",
+        inputSchema: {
+          serviceId: z.string().describe('The SAP service ID'),
+          entityName: z.string().describe('The media entity name within the service'),
+          operation: z
+            .enum(['download', 'upload'])
+            .describe(
+              "'download' reads the content of the entity identified by keys. 'upload' replaces the content of that entity, or creates a new media entity when keys are omitted."
+            ),
+          keys: z.record(z.unknown()).optional().describe('Key properties of the media entity'),
+          content: z.string().optional().describe('For upload: the binary content, base64 encoded'),
+          contentType: z
+            .string()
+            .optional()
+            .describe('For upload: MIME type of the content, e.g. application/pdf'),
+          slug: z
+            .string()
+            .optional()
+            .describe('For upload: file name passed in the Slug header when creating an entity'),
+          ifMatch: z
+            .string()
+            .optional()
+            .describe('ETag of the media entity when replacing its content'),
+        },
+      },
+      async (args: Record<string, unknown>, extra) => {
+        return this.executeMediaOperation(args, extra.signal);
       }
     );
 
-    this.logger.info('✅ Registered 4 hierarchical discovery tools successfully');
+    this.logger.info('✅ Registered 7 hierarchical discovery tools successfully');
 
     // Register Session Authentication Check Tool
     await this.registerAuthCheckTool();
@@ -1562,7 +1869,7 @@ export class HierarchicalSAPToolRegistry {
       const serviceId = args.serviceId as string;
       const showCapabilities = args.showCapabilities !== false;
 
-      const service = this.discoveredServices.find(s => s.id === serviceId);
+      const service = await this.findService(serviceId);
       if (!service) {
         return {
           content: [
@@ -1580,7 +1887,7 @@ export class HierarchicalSAPToolRegistry {
           content: [
             {
               type: 'text' as const,
-              text: `⚠️ No entities found for service: ${serviceId}. The service metadata may not have loaded properly.`,
+              text: `⚠️ No entities found for service: ${serviceId}. The service metadata may not have loaded properly.${service.metadataStatus?.error ? `\n\nReason: ${service.metadataStatus.error}` : ''}`,
             },
           ],
         };
@@ -1589,6 +1896,7 @@ export class HierarchicalSAPToolRegistry {
       const entities = service.metadata.entityTypes.map(entity => {
         const result: any = {
           name: entity.name,
+          label: entity.label,
           entitySet: entity.entitySet,
           propertyCount: entity.properties.length,
           keyProperties: entity.keys,
@@ -1600,12 +1908,29 @@ export class HierarchicalSAPToolRegistry {
             creatable: entity.creatable,
             updatable: entity.updatable,
             deletable: entity.deletable,
+            media: entity.hasStream,
+            draft: entity.draft ? (entity.draft.root ? 'root' : 'node') : false,
           };
         }
 
         return result;
       });
 
+      const operations = (service.metadata.operations || []).map(operation => ({
+        name: operation.name,
+        kind: operation.kind,
+        httpMethod: operation.httpMethod,
+        boundTo: operation.binding
+          ? `${operation.binding.entityType.split('.').pop()}${operation.binding.isCollection ? ' (collection)' : ''}`
+          : undefined,
+        parameters: operation.parameters.map(p => ({
+          name: p.name,
+          type: p.type,
+          required: !p.nullable,
+        })),
+        returnType: operation.returnType,
+      }));
+
       const serviceInfo = {
         service: {
           id: serviceId,
@@ -1615,14 +1940,22 @@ export class HierarchicalSAPToolRegistry {
           odataVersion: service.odataVersion,
         },
         entities: entities,
+        ...(operations.length > 0 ? { operations } : {}),
       };
 
       let responseText = `📊 Service: ${service.title} (${serviceId})\n`;
-      responseText += `📁 Found ${entities.length} entities\n\n`;
+      responseText += `📁 Found ${entities.length} entities`;
+      if (operations.length > 0) {
+        responseText += ` and ${operations.length} operations`;
+      }
+      responseText += `\n\n`;
       responseText += JSON.stringify(serviceInfo, null, 2);
       responseText += `\n\n📋 Next steps:\n`;
       responseText += `• Use 'get-entity-schema' to see detailed property information for an entity\n`;
       responseText += `• Use 'execute-entity-operation' to perform CRUD operations`;
+      if (operations.length > 0) {
+        responseText += `\n• Use 'execute-service-operation' to invoke a function import, action or function`;
+      }
 
       return {
         content: [
@@ -1655,7 +1988,7 @@ export class HierarchicalSAPToolRegistry {
       const entityName = args.entityName as string;
 
       // Schema access is public - no authentication required for discovery
-      const service = this.discoveredServices.find(s => s.id === serviceId);
+      const service = await this.findService(serviceId);
       if (!service) {
         return {
           content: [
@@ -1686,6 +2019,7 @@ export class HierarchicalSAPToolRegistry {
       const schema = {
         entity: {
           name: entityType.name,
+          label: entityType.label,
           entitySet: entityType.entitySet,
           namespace: entityType.namespace,
         },
@@ -1694,15 +2028,35 @@ export class HierarchicalSAPToolRegistry {
           creatable: entityType.creatable,
           updatable: entityType.updatable,
           deletable: entityType.deletable,
+          media: entityType.hasStream,
+          draft: entityType.draft ?? false,
+          // Filtering or sorting on restricted properties is rejected by the service
+          requiresFilter: entityType.requiresFilter ?? false,
+          requiredFilterProperties: this.getPropertyNames(
+            entityType,
+            prop => !!prop.requiredInFilter
+          ),
+          nonFilterableProperties: this.getPropertyNames(
+            entityType,
+            prop => prop.filterable === false
+          ),
+          nonSortableProperties: this.getPropertyNames(entityType, prop => prop.sortable === false),
         },
+        defaultFields: entityType.lineItem,
+        selectionFields: entityType.selectionFields,
         keyProperties: entityType.keys,
         properties: entityType.properties.map(prop => ({
-          name: prop.name,
-          type: prop.type,
-          nullable: prop.nullable,
-          maxLength: prop.maxLength,
+          ...this.describeProperty(service.metadata, prop),
           isKey: entityType.keys.includes(prop.name),
         })),
+        navigationProperties: entityType.navigationProperties.map(nav => ({
+          name: nav.name,
+          target: nav.type.split('.').pop(),
+          multiplicity: nav.multiplicity,
+          partner: nav.partner,
+          referentialConstraints:
+            nav.referentialConstraints.length > 0 ? nav.referentialConstraints : undefined,
+        })),
       };
 
       let responseText = `📋 Schema for ${entityName} in ${service.title}:\n\n`;
@@ -1740,13 +2094,16 @@ export class HierarchicalSAPToolRegistry {
   /**
    * Execute CRUD operations on entities with comprehensive error handling
    */
-  private async executeEntityOperation(args: Record<string, unknown>) {
+  private async executeEntityOperation(args: Record<string, unknown>, signal?: AbortSignal) {
     try {
       const serviceId = args.serviceId as string;
       const entityName = args.entityName as string;
       const operation = args.operation as string;
-      const parameters = (args.parameters as Record<string, any>) || {};
+      const parameters = { ...((args.parameters as Record<string, any>) || {}) };
       const queryOptions = (args.queryOptions as Record<string, any>) || {};
+      const ifMatch = args.ifMatch as string | undefined;
+      const navigationPath = (args.navigationPath as NavigationSegment[]) || [];
+      const cursor = args.cursor as string | undefined;
 
       // Check authentication for this tool
       let userJWT: string | undefined;
@@ -1786,7 +2143,7 @@ export class HierarchicalSAPToolRegistry {
       }
 
       // Validate service
-      const service = this.discoveredServices.find(s => s.id === serviceId);
+      const service = await this.findService(serviceId);
       if (!service) {
         return {
           content: [
@@ -1816,6 +2173,18 @@ export class HierarchicalSAPToolRegistry {
       // Execute the operation
       let response;
       let operationDescription = '';
+      let etag: string | undefined;
+      let createdKeys: Record<string, unknown> | undefined;
+      let draftKeys: Record<string, unknown> | undefined;
+      let paging: CollectionReadResult | undefined;
+      let totalCount: number | undefined;
+      let resultType = entityType;
+      const pagingOptions: CollectionReadOptions = {
+        autoPaginate: args.autoPaginate === true,
+        maxRecords: args.maxRecords as number | undefined,
+        signal,
+        cache: this.getResponseCacheOptions(serviceId, args.refresh === true),
+      };
 
       // Create destination context for the operation
       const destinationContext: DestinationContext = {
@@ -1825,19 +2194,160 @@ export class HierarchicalSAPToolRegistry {
         entityName,
       };
 
-      switch (operation) {
-        case 'read':
+      if (navigationPath.length > 0 && operation !== 'read' && operation !== 'read-single') {
+        throw new Error(`'navigationPath' is only supported for read operations`);
+      }
+      if (cursor && operation !== 'read') {
+        throw new Error(`'cursor' is only supported for read operations`);
+      }
+
+      // Draft-enabled entities have IsActiveEntity in the key: address the draft or the active
+      // entity depending on the operation unless the caller chose one
+      if (entityType.draft && parameters.IsActiveEntity === undefined) {
+        if (DRAFT_OPERATIONS.includes(operation) || operation === 'update') {
+          parameters.IsActiveEntity = operation === 'draft-edit';
+        } else if (operation === 'read-single' || operation === 'delete' || navigationPath.length) {
+          parameters.IsActiveEntity = true;
+        }
+      }
+
+      // V2 drafts also key on DraftUUID: the active entity has the initial GUID, a draft the one
+      // returned by draft-edit
+      if (entityType.draft && entityType.keys.includes('DraftUUID') && !parameters.DraftUUID) {
+        if (parameters.IsActiveEntity === true) {
+          parameters.DraftUUID = ACTIVE_DRAFT_UUID;
+        } else if (parameters.IsActiveEntity === false) {
+          throw new Error(
+            `'DraftUUID' is required to address the draft of ${entityName}, pass the one returned by 'draft-edit'`
+          );
+        }
+      }
+
+      switch (cursor ? 'read' : navigationPath.length > 0 ? 'read-navigation' : operation) {
+        case 'read-navigation': {
+          // Multiplicity of the path decides whether a collection or a single entity comes back
+          const navigation = this.resolveNavigationPath(
+            service,
+            entityType,
+            parameters,
+            navigationPath
+          );
+          resultType = navigation.targetType;
+          operationDescription = `Reading ${navigation.targetType.name} ${navigation.isCollection ? 'entities' : 'entity'} via ${entityName}/${navigationPath.map(segment => segment.property).join('/')}`;
+
+          if (!navigation.isCollection) {
+            const collectionOptions = ['$filter', '$orderby', '$top', '$skip'].filter(
+              option => queryOptions[option] !== undefined
+            );
+            if (collectionOptions.length > 0) {
+              throw new Error(
+                `${collectionOptions.join(', ')} cannot be applied: the navigation path returns a single ${navigation.targetType.name}`
+              );
+            }
+          }
+
+          if (navigation.isCollection) {
+            paging = await this.sapClient.readCollection(
+              service.url,
+              this.buildReadUrl('', navigation.path, queryOptions, service.odataVersion, {
+                metadata: service.metadata,
+                entityType: navigation.targetType,
+              }),
+              userJWT,
+              pagingOptions
+            );
+            response = { data: paging.data };
+            break;
+          }
+
+          const navigationUrl = this.buildReadUrl(
+            service.url,
+            navigation.path,
+            queryOptions,
+            service.odataVersion,
+            { metadata: service.metadata, entityType: navigation.targetType }
+          );
+          response = await this.sapClient.executeCRUDOperation(
+            'read',
+            navigationUrl,
+            undefined,
+            userJWT,
+            { servicePath: service.url, signal, cache: pagingOptions.cache }
+          );
+          etag = this.sapClient.extractETag(response);
+          break;
+        }
+
+        case 'read': {
           operationDescription = `Reading ${entityName} entities`;
           if (queryOptions.$top) operationDescription += ` (top ${queryOptions.$top})`;
           if (queryOptions.$filter) operationDescription += ` with filter: ${queryOptions.$filter}`;
 
+          // A cursor carries the complete URL of the next page, including the query options
+          let readPath = this.buildReadUrl(
+            '',
+            entityType.entitySet!,
+            queryOptions,
+            service.odataVersion,
+            { metadata: service.metadata, entityType }
+          );
+          if (cursor) {
+            const position = ODataPagingUtils.decodeCursor(cursor, serviceId);
+            readPath = position.path;
+            pagingOptions.offset = position.offset;
+            operationDescription = `Reading next ${entityName} page`;
+          }
+
           // Use new context-aware approach for read operations
-          const readUrl = this.buildReadUrl(service.url, entityType.entitySet!, queryOptions);
-          response = await this.sapClient.executeCRUDOperation('read', readUrl, undefined, userJWT);
+          paging = await this.sapClient.readCollection(
+            service.url,
+            readPath,
+            userJWT,
+            pagingOptions
+          );
+          response = { data: paging.data };
+          break;
+        }
+
+        case 'count': {
+          operationDescription = `Counting ${entityName} entities`;
+          if (queryOptions.$filter) operationDescription += ` with filter: ${queryOptions.$filter}`;
+
+          // $count returns the plain number, no records are transferred
+          const countUrl = this.buildReadUrl(
+            service.url,
+            `${entityType.entitySet!}/$count`,
+            { $filter: queryOptions.$filter, $search: queryOptions.$search },
+            service.odataVersion
+          );
+          const countResponse = await this.sapClient.executeCRUDOperation(
+            'read',
+            countUrl,
+            undefined,
+            userJWT,
+            {
+              headers: { Accept: 'text/plain' },
+              servicePath: service.url,
+              signal,
+              cache: pagingOptions.cache,
+            }
+          );
+          totalCount = Number(String(countResponse.data).trim());
+          if (Number.isNaN(totalCount)) {
+            throw new Error(
+              `Unexpected $count response: ${String(countResponse.data).slice(0, 100)}`
+            );
+          }
+          response = {
+            data: {},
+            retries: countResponse.retries,
+            cachedAt: countResponse.cachedAt,
+          };
           break;
+        }
 
         case 'read-single':
-          const keyValue = this.buildKeyValue(entityType, parameters);
+          const keyValue = this.buildKeyValue(entityType, parameters, service.odataVersion);
           operationDescription = `Reading single ${entityName} with key: ${keyValue}`;
 
           // Use new context-aware approach
@@ -1846,33 +2356,53 @@ export class HierarchicalSAPToolRegistry {
             'read',
             singleReadUrl,
             undefined,
-            userJWT
+            userJWT,
+            { servicePath: service.url, signal, cache: pagingOptions.cache }
           );
+          etag = this.sapClient.extractETag(response);
           break;
 
-        case 'create':
+        case 'create': {
           if (!entityType.creatable) {
             throw new Error(`Entity '${entityName}' does not support create operations`);
           }
           operationDescription = `Creating new ${entityName}`;
 
+          // Nested objects/arrays under navigation properties are created in the same request
+          const deepInsert = this.prepareDeepInsert(service, entityType, parameters, entityName);
+          if (deepInsert.navigation.length > 0) {
+            operationDescription += ` with ${deepInsert.navigation.map(nav => nav.property).join(', ')} (deep insert)`;
+          }
+
           // Use new context-aware approach
-          const createUrl = `${service.url}${entityType.entitySet!}`;
+          let createUrl = `${service.url}${entityType.entitySet!}`;
+          if (service.odataVersion === 'v4' && deepInsert.navigation.length > 0) {
+            // V4 only returns nested entities when they are expanded
+            createUrl += `?$expand=${encodeURIComponent(this.buildDeepInsertExpand(deepInsert.navigation))}`;
+          }
           response = await this.sapClient.executeCRUDOperation(
             'create',
             createUrl,
-            parameters,
-            userJWT
+            deepInsert.payload,
+            userJWT,
+            { servicePath: service.url, signal }
           );
+          if (deepInsert.navigation.length > 0) {
+            const created = response.data?.d ?? response.data;
+            createdKeys = this.collectCreatedKeys(entityType, created, deepInsert.navigation);
+          }
           break;
+        }
 
         case 'update':
-          if (!entityType.updatable) {
+          // A draft can always be patched, the updatable flag describes the active entity
+          if (!entityType.updatable && !(entityType.draft && parameters.IsActiveEntity === false)) {
             throw new Error(`Entity '${entityName}' does not support update operations`);
           }
-          const updateKeyValue = this.buildKeyValue(entityType, parameters);
+          const updateKeyValue = this.buildKeyValue(entityType, parameters, service.odataVersion);
           const updateData = { ...parameters };
           entityType.keys.forEach(key => delete updateData[key]);
+          CsdlUtils.validateStructure(service.metadata, entityType, updateData, entityName);
           operationDescription = `Updating ${entityName} with key: ${updateKeyValue}`;
 
           // Use new context-aware approach
@@ -1881,7 +2411,8 @@ export class HierarchicalSAPToolRegistry {
             'update',
             updateUrl,
             updateData,
-            userJWT
+            userJWT,
+            { servicePath: service.url, ifMatch, signal }
           );
           break;
 
@@ -1889,26 +2420,177 @@ export class HierarchicalSAPToolRegistry {
           if (!entityType.deletable) {
             throw new Error(`Entity '${entityName}' does not support delete operations`);
           }
-          const deleteKeyValue = this.buildKeyValue(entityType, parameters);
+          const deleteKeyValue = this.buildKeyValue(entityType, parameters, service.odataVersion);
           operationDescription = `Deleting ${entityName} with key: ${deleteKeyValue}`;
 
           // Use new context-aware approach
           const deleteUrl = `${service.url}${entityType.entitySet!}(${deleteKeyValue})`;
-          await this.sapClient.executeCRUDOperation('delete', deleteUrl, undefined, userJWT);
+          const deleteResponse = await this.sapClient.executeCRUDOperation(
+            'delete',
+            deleteUrl,
+            undefined,
+            userJWT,
+            { servicePath: service.url, ifMatch, signal }
+          );
           response = {
             data: {
               message: `Successfully deleted ${entityName} with key: ${deleteKeyValue}`,
               success: true,
             },
+            headers: deleteResponse.headers,
+            retries: deleteResponse.retries,
+          };
+          break;
+
+        case 'draft-edit': {
+          const draft = this.requireDraftRoot(entityType);
+          const editKeyValue = this.buildKeyValue(entityType, parameters, service.odataVersion);
+          operationDescription = `Creating draft of ${entityName} with key: ${editKeyValue}`;
+
+          // PreserveChanges: fail instead of overwriting a draft another user is working on
+          response = await this.invokeDraftAction(
+            service,
+            entityType,
+            draft.editAction,
+            parameters,
+            { PreserveChanges: true },
+            userJWT,
+            { ifMatch, signal }
+          );
+          etag = this.sapClient.extractETag(response);
+
+          // The draft is addressed by its own keys (DraftUUID in V2) from now on
+          const created = response.data?.d ?? response.data;
+          draftKeys = Object.fromEntries(
+            entityType.keys
+              .filter(key => created?.[key] !== undefined)
+              .map(key => [key, created[key]])
+          );
+          break;
+        }
+
+        case 'draft-activate': {
+          const draft = this.requireDraftRoot(entityType);
+          const activateKeyValue = this.buildKeyValue(entityType, parameters, service.odataVersion);
+          operationDescription = `Activating draft of ${entityName} with key: ${activateKeyValue}`;
+
+          // Preparation runs the validations and determinations before the draft becomes active
+          let preparationRetries = 0;
+          if (draft.preparationAction) {
+            const prepared = await this.invokeDraftAction(
+              service,
+              entityType,
+              draft.preparationAction,
+              parameters,
+              {},
+              userJWT,
+              { signal }
+            );
+            preparationRetries = prepared.retries;
+          }
+          response = await this.invokeDraftAction(
+            service,
+            entityType,
+            draft.activationAction,
+            parameters,
+            {},
+            userJWT,
+            { ifMatch, signal }
+          );
+          response.retries += preparationRetries;
+          etag = this.sapClient.extractETag(response);
+          break;
+        }
+
+        case 'draft-discard': {
+          this.requireDraftRoot(entityType);
+          const discardKeyValue = this.buildKeyValue(entityType, parameters, service.odataVersion);
+          operationDescription = `Discarding draft of ${entityName} with key: ${discardKeyValue}`;
+
+          // Deleting the draft instance leaves the active entity untouched
+          const discardResponse = await this.sapClient.executeCRUDOperation(
+            'delete',
+            `${service.url}${entityType.entitySet!}(${discardKeyValue})`,
+            undefined,
+            userJWT,
+            { servicePath: service.url, ifMatch, signal }
+          );
+          response = {
+            data: {
+              message: `Successfully discarded draft of ${entityName} with key: ${discardKeyValue}`,
+              success: true,
+            },
+            headers: discardResponse.headers,
+            retries: discardResponse.retries,
           };
           break;
+        }
 
         default:
           throw new Error(`Unsupported operation: ${operation}`);
       }
 
+      // Nobody is waiting for the result anymore, skip normalizing and serializing it
+      if (signal?.aborted) {
+        throw new SAPRequestCancelledError(`${operation} ${entityName}`);
+      }
+
+      totalCount ??= ODataPagingUtils.extractCount(response.data);
+      const retries: number = paging?.retries ?? response.retries ?? 0;
+      const cachedAt: number | undefined = paging ? paging.cachedAt : response.cachedAt;
+      const messages = this.sapClient.extractMessages(response);
+      const nextCursor = paging?.next
+        ? ODataPagingUtils.encodeCursor(serviceId, paging.next)
+        : undefined;
+
+      // Same shape for V2 and V4 unless the raw payload is requested
+      const output =
+        args.raw === true || operation === 'delete' || operation === 'draft-discard'
+          ? totalCount !== undefined
+            ? { totalCount, ...response.data }
+            : response.data
+          : this.sapClient.normalizeResponse(response.data, {
+              entityType: resultType,
+              entityTypes: service.metadata?.entityTypes,
+              complexTypes: service.metadata?.complexTypes,
+              count: totalCount,
+              nextCursor,
+              etag,
+            });
+
       let responseText = `✅ ${operationDescription}\n\n`;
-      responseText += JSON.stringify(response.data, null, 2);
+      responseText += JSON.stringify(output, null, 2);
+
+      if (paging) {
+        responseText += `\n\n📄 ${paging.recordCount} records from ${paging.pages} page(s). `;
+        responseText += nextCursor
+          ? `More data available - pass this cursor to continue:\n${nextCursor}`
+          : 'No more data available.';
+      }
+
+      if (createdKeys) {
+        responseText += `\n\n🔑 Created keys: ${JSON.stringify(createdKeys, null, 2)}`;
+      }
+
+      if (draftKeys) {
+        responseText += `\n\n📝 Draft keys: ${JSON.stringify(draftKeys, null, 2)}\n💡 Pass them in 'parameters' to update, activate or discard the draft.`;
+      }
+
+      if (etag) {
+        responseText += `\n\n🏷️ ETag: ${etag}\n💡 Pass it as 'ifMatch' to update or delete this entity without overwriting concurrent changes.`;
+      }
+
+      if (retries > 0) {
+        responseText += `\n\n🔁 Succeeded after ${retries} automatic ${retries === 1 ? 'retry' : 'retries'} (transient SAP errors)`;
+      }
+
+      if (messages.length > 0) {
+        responseText += `\n\n${this.formatSAPMessages(messages)}`;
+      }
+
+      if (cachedAt !== undefined) {
+        responseText += `\n\n⚡ Served from cache (read from SAP ${Math.round((Date.now() - cachedAt) / 1000)}s ago). Pass 'refresh: true' for live data.`;
+      }
 
       // Add UI tool suggestions based on operation type
       const uiSuggestions = this.generateUIToolSuggestions(
@@ -1927,9 +2609,46 @@ export class HierarchicalSAPToolRegistry {
             text: responseText,
           },
         ],
+        _meta: { retries, cached: cachedAt !== undefined },
       };
     } catch (error) {
+      if (error instanceof SAPRequestCancelledError) {
+        return this.buildCancelledResult('execute-entity-operation', error);
+      }
       this.logger.error('Error executing entity operation:', error);
+
+      if (error instanceof SAPBusinessError) {
+        return this.buildBusinessErrorResult(error, {
+          entity: args.entityName,
+          operation: args.operation,
+        });
+      }
+
+      if (error instanceof SAPConcurrencyError) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  error: 'concurrent_modification',
+                  message: `❌ ${error.message}`,
+                  entity: args.entityName,
+                  sentEtag: error.sentEtag,
+                  currentEtag: error.currentEtag,
+                  currentVersion: error.currentVersion,
+                  action:
+                    'Review currentVersion, then retry the operation with ifMatch set to currentEtag if the change still applies',
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+
       return {
         content: [
           {
@@ -1943,47 +2662,1070 @@ export class HierarchicalSAPToolRegistry {
   }
 
   /**
-   * Build key value for entity operations (handles single and composite keys)
+   * Response cache settings for reads of a service, undefined when caching is off for it
    */
-  private buildKeyValue(entityType: EntityType, parameters: Record<string, any>): string {
-    const keyProperties = entityType.properties.filter(p => entityType.keys.includes(p.name));
-
-    if (keyProperties.length === 1) {
-      const keyName = keyProperties[0].name;
-      if (!(keyName in parameters)) {
-        throw new Error(
-          `Missing required key property: ${keyName}. Required keys: ${entityType.keys.join(', ')}`
-        );
-      }
-      return String(parameters[keyName]);
-    }
-
-    // Handle composite keys
-    const keyParts = keyProperties.map(prop => {
-      if (!(prop.name in parameters)) {
-        throw new Error(
-          `Missing required key property: ${prop.name}. Required keys: ${entityType.keys.join(', ')}`
-        );
-      }
-      return `${prop.name}='${parameters[prop.name]}'`;
-    });
-    return keyParts.join(',');
+  private getResponseCacheOptions(
+    serviceId: string,
+    refresh: boolean
+  ): ResponseCacheOptions | undefined {
+    const ttl = ResponseCache.getInstance().getTtl(serviceId);
+    return ttl > 0 ? { ttl, refresh } : undefined;
   }
 
   /**
-   * Build URL for read operations with query parameters
+   * Gateway rejected the request: list field-level messages so the payload can be corrected
    */
-  private buildReadUrl(
-    serviceUrl: string,
-    entitySet: string,
-    queryOptions: Record<string, any>
-  ): string {
-    let url = `${serviceUrl}${entitySet}`;
-
+  private buildBusinessErrorResult(error: SAPBusinessError, context: Record<string, unknown>) {
+    const fieldErrors = error.fieldErrors;
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(
+            {
+              error: 'sap_business_error',
+              message: `❌ ${error.message}`,
+              status: error.statusCode,
+              code: error.code,
+              ...context,
+              fieldErrors: fieldErrors.map(message => ({
+                field: message.target,
+                message: message.message,
+                code: message.code,
+              })),
+              messages: error.messages,
+              action:
+                fieldErrors.length > 0
+                  ? 'Correct the listed fields and retry the operation'
+                  : 'Review the messages; retrying unchanged will fail again',
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Warnings and info messages SAP returned with a successful response
+   */
+  private formatSAPMessages(messages: SAPMessage[]): string {
+    const lines = messages.map(
+      message =>
+        `- [${message.severity}]${message.code ? ` ${message.code}` : ''}${message.target ? ` (${message.target})` : ''}: ${message.message}`
+    );
+    return `📨 SAP messages:\n${lines.join('\n')}`;
+  }
+
+  /**
+   * The MCP client drops the response of a cancelled request, so this is only logged, not reported as failure
+   */
+  private buildCancelledResult(toolName: string, error: SAPRequestCancelledError) {
+    this.logger.info(`Tool call ${toolName} cancelled: ${error.message}`);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `🚫 ${error.message}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Schema entry of a property, complex types are expanded with their nested properties
+   */
+  private describeProperty(
+    metadata: ServiceMetadata | null,
+    prop: Property,
+    expanded: string[] = []
+  ): Record<string, unknown> {
+    const { type } = CsdlUtils.parseTypeReference(prop.type);
+    const complexType = CsdlUtils.findComplexType(metadata, type);
+    const enumType = CsdlUtils.findEnumType(metadata, type);
+
+    return {
+      name: prop.name,
+      label: prop.label,
+      type: prop.type,
+      nullable: prop.nullable,
+      maxLength: prop.maxLength,
+      precision: prop.precision,
+      scale: prop.scale,
+      defaultValue: prop.defaultValue,
+      filterable: prop.filterable !== false,
+      sortable: prop.sortable !== false,
+      creatable: prop.creatable !== false,
+      updatable: prop.updatable !== false,
+      requiredInFilter: prop.requiredInFilter,
+      unit: prop.unit,
+      text: prop.text,
+      displayFormat: prop.displayFormat,
+      ...(enumType && {
+        enumMembers: enumType.members.map(member => member.name),
+        isFlags: enumType.isFlags || undefined,
+      }),
+      // A complex type may contain itself (e.g. a tree node), expand each type once per path
+      ...(complexType &&
+        !expanded.includes(type) && {
+          properties: complexType.properties.map(nested =>
+            this.describeProperty(metadata, nested, [...expanded, type])
+          ),
+        }),
+    };
+  }
+
+  /**
+   * Names of the properties matching a restriction, undefined when none does
+   */
+  private getPropertyNames(
+    entityType: EntityType,
+    predicate: (prop: Property) => boolean
+  ): string[] | undefined {
+    const names = entityType.properties.filter(predicate).map(prop => prop.name);
+    return names.length > 0 ? names : undefined;
+  }
+
+  /**
+   * Validate a (deep) create payload against the metadata and convert it to the wire format
+   * Navigation properties hold an object (to-one) or an array (to-many); V2 wraps arrays in { results }
+   */
+  private prepareDeepInsert(
+    service: ODataService,
+    entityType: EntityType,
+    payload: Record<string, unknown>,
+    path: string
+  ): { payload: Record<string, unknown>; navigation: DeepInsertNavigation[] } {
+    const result: Record<string, unknown> = {};
+    const navigation: DeepInsertNavigation[] = [];
+
+    Object.entries(payload).forEach(([name, value]) => {
+      if (name.startsWith('__') || name.startsWith('@')) {
+        result[name] = value;
+        return;
+      }
+      const property = entityType.properties.find(prop => prop.name === name);
+      if (property) {
+        CsdlUtils.validateValue(service.metadata, property, value, `${path}/${name}`);
+        result[name] = value;
+        return;
+      }
+
+      const navigationProperty = entityType.navigationProperties.find(nav => nav.name === name);
+      if (!navigationProperty) {
+        throw new Error(`Unknown property '${name}' on ${entityType.name} at '${path}'`);
+      }
+      const targetType = service.metadata?.entityTypes.find(
+        e => `${e.namespace}.${e.name}` === navigationProperty.type
+      );
+      if (!targetType) {
+        throw new Error(`Target type '${navigationProperty.type}' of '${path}/${name}' not found`);
+      }
+
+      const isCollection = navigationProperty.multiplicity === '*';
+      const items = isCollection
+        ? Array.isArray(value)
+          ? value
+          : (value as { results?: unknown })?.results
+        : [value];
+      if (
+        !Array.isArray(items) ||
+        items.some(item => !item || typeof item !== 'object' || Array.isArray(item))
+      ) {
+        throw new Error(
+          `'${path}/${name}' must be ${isCollection ? 'an array of' : 'a single'} ${targetType.name} object${isCollection ? 's' : ''}`
+        );
+      }
+
+      const prepared = items.map((item, index) =>
+        this.prepareDeepInsert(
+          service,
+          targetType,
+          item as Record<string, unknown>,
+          isCollection ? `${path}/${name}[${index}]` : `${path}/${name}`
+        )
+      );
+      const nestedPayloads = prepared.map(entry => entry.payload);
+      result[name] = !isCollection
+        ? nestedPayloads[0]
+        : service.odataVersion === 'v2'
+          ? { results: nestedPayloads }
+          : nestedPayloads;
+
+      // Items of one collection may use different nested navigation properties
+      const nested = new Map<string, DeepInsertNavigation>();
+      prepared.forEach(entry => entry.navigation.forEach(nav => nested.set(nav.property, nav)));
+      navigation.push({ property: name, targetType, isCollection, nested: [...nested.values()] });
+    });
+
+    return { payload: result, navigation };
+  }
+
+  /**
+   * V4 $expand for all navigation properties of a deep insert, e.g. to_Item($expand=to_ScheduleLine)
+   */
+  private buildDeepInsertExpand(navigation: DeepInsertNavigation[]): string {
+    return navigation
+      .map(nav =>
+        nav.nested.length > 0
+          ? `${nav.property}($expand=${this.buildDeepInsertExpand(nav.nested)})`
+          : nav.property
+      )
+      .join(',');
+  }
+
+  /**
+   * Keys of the created entity and of every nested entity returned by the service
+   */
+  private collectCreatedKeys(
+    entityType: EntityType,
+    entity: Record<string, unknown> | undefined,
+    navigation: DeepInsertNavigation[]
+  ): Record<string, unknown> {
+    if (!entity || typeof entity !== 'object') {
+      return {};
+    }
+
+    const keys: Record<string, unknown> = Object.fromEntries(
+      entityType.keys.map(key => [key, entity[key]])
+    );
+    navigation.forEach(nav => {
+      const value = entity[nav.property] as
+        | Record<string, unknown>
+        | Array<Record<string, unknown>>
+        | { results?: Array<Record<string, unknown>> }
+        | undefined;
+      if (!value) {
+        return;
+      }
+      const items = Array.isArray(value)
+        ? value
+        : Array.isArray(value.results)
+          ? value.results
+          : [value as Record<string, unknown>];
+      const collected = items.map(item =>
+        this.collectCreatedKeys(nav.targetType, item, nav.nested)
+      );
+      keys[nav.property] = nav.isCollection ? collected : collected[0];
+    });
+
+    return keys;
+  }
+
+  /**
+   * Resolve a navigation path against the metadata, starting from a single entity
+   * Returns the resource path relative to the service root and the target entity type
+   */
+  private resolveNavigationPath(
+    service: ODataService,
+    entityType: EntityType,
+    parameters: Record<string, unknown>,
+    navigationPath: NavigationSegment[]
+  ): { path: string; targetType: EntityType; isCollection: boolean } {
+    let path = `${entityType.entitySet!}(${this.buildKeyValue(entityType, parameters, service.odataVersion)})`;
+    let current = entityType;
+    let isCollection = false;
+
+    navigationPath.forEach((segment, index) => {
+      if (isCollection) {
+        throw new Error(
+          `Cannot navigate from '${navigationPath[index - 1].property}' to '${segment.property}': provide 'keys' to select a single ${current.name}`
+        );
+      }
+
+      const navigationProperty = current.navigationProperties.find(
+        nav => nav.name === segment.property
+      );
+      if (!navigationProperty) {
+        throw new Error(
+          `Navigation property '${segment.property}' not found on ${current.name}. Available: ${current.navigationProperties.map(nav => nav.name).join(', ') || 'none'}`
+        );
+      }
+
+      const target = service.metadata?.entityTypes.find(
+        e => `${e.namespace}.${e.name}` === navigationProperty.type
+      );
+      if (!target) {
+        throw new Error(
+          `Target type '${navigationProperty.type}' of '${segment.property}' not found in metadata`
+        );
+      }
+
+      path += `/${segment.property}`;
+      if (navigationProperty.multiplicity === '*') {
+        if (segment.keys) {
+          path += `(${this.buildKeyValue(target, segment.keys, service.odataVersion)})`;
+        } else {
+          isCollection = true;
+        }
+      } else if (segment.keys) {
+        throw new Error(
+          `'${segment.property}' refers to a single ${target.name}, 'keys' are not allowed`
+        );
+      }
+
+      current = target;
+    });
+
+    return { path, targetType: current, isCollection };
+  }
+
+  /**
+   * Authenticate a runtime tool call and extract the user JWT for Principal Propagation
+   */
+  private async authorizeRuntimeToolCall(
+    toolName: string,
+    args: Record<string, unknown>
+  ): Promise<
+    | { authorized: true; userJWT?: string }
+    | { authorized: false; response: { content: { type: 'text'; text: string }[]; isError: true } }
+  > {
+    if (!this.authManager) {
+      this.logger.warn(
+        `⚠️  No authentication manager available - ${toolName} will proceed without authentication`
+      );
+      return { authorized: true };
+    }
+
+    const authResult = await this.authManager.authenticateToolCall(toolName, args);
+    if (!authResult.authenticated) {
+      return {
+        authorized: false,
+        response: {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(this.authManager.formatAuthError(authResult), null, 2),
+            },
+          ],
+          isError: true,
+        },
+      };
+    }
+
+    return { authorized: true, userJWT: authResult.context?.token };
+  }
+
+  /**
+   * Invoke a function import (V2) or action/function (V4) with type-checked parameters
+   */
+  private async executeServiceOperation(args: Record<string, unknown>, signal?: AbortSignal) {
+    try {
+      const serviceId = args.serviceId as string;
+      const operationName = args.operationName as string;
+      const entityName = args.entityName as string | undefined;
+      const parameters = (args.parameters as Record<string, unknown>) || {};
+
+      // Authenticate before the lookup may load metadata; every operation needs at least read scope
+      const auth = await this.authorizeRuntimeToolCall('execute-service-operation', {
+        ...args,
+        httpMethod: 'GET',
+      });
+      if (!auth.authorized) {
+        return auth.response;
+      }
+
+      const service = await this.findService(serviceId);
+      if (!service) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `❌ Service not found: ${serviceId}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const available = service.metadata?.operations || [];
+      const candidates = available.filter(
+        operation =>
+          operation.name === operationName &&
+          (!entityName || operation.binding?.entityType.split('.').pop() === entityName)
+      );
+      if (candidates.length !== 1) {
+        const message =
+          candidates.length === 0
+            ? `❌ Operation '${operationName}' not found in service '${serviceId}'\n\n📋 Available operations: ${available.map(o => o.name).join(', ') || 'none'}`
+            : `❌ Operation '${operationName}' is bound to several entities, specify 'entityName': ${candidates.map(o => o.binding?.entityType.split('.').pop()).join(', ')}`;
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: message,
+            },
+          ],
+          isError: true,
+        };
+      }
+      const operation = candidates[0];
+
+      // Actions modify data and need write scope
+      if (operation.httpMethod !== 'GET') {
+        const writeAuth = await this.authorizeRuntimeToolCall('execute-service-operation', {
+          ...args,
+          httpMethod: operation.httpMethod,
+        });
+        if (!writeAuth.authorized) {
+          return writeAuth.response;
+        }
+      }
+
+      const unknown = Object.keys(parameters).filter(
+        name => !operation.parameters.some(p => p.name === name)
+      );
+      if (unknown.length > 0) {
+        throw new Error(
+          `Unknown parameters: ${unknown.join(', ')}. Expected: ${operation.parameters.map(p => p.name).join(', ') || 'none'}`
+        );
+      }
+      const missing = operation.parameters.filter(
+        p => !p.nullable && (parameters[p.name] === undefined || parameters[p.name] === null)
+      );
+      if (missing.length > 0) {
+        throw new Error(`Missing required parameters: ${missing.map(p => p.name).join(', ')}`);
+      }
+
+      // Formatting the literals also validates the values against their Edm types
+      const literals = operation.parameters
+        .filter(p => parameters[p.name] !== undefined)
+        .map(
+          p =>
+            `${p.name}=${ODataLiteralUtils.encode(ODataLiteralUtils.formatLiteral(parameters[p.name], p.type, service.odataVersion, p.name))}`
+        );
+
+      let url = `${service.url}${this.buildOperationPath(service, operation, args.keys as Record<string, unknown>)}`;
+      let body: unknown;
+      if (service.odataVersion === 'v2') {
+        if (literals.length > 0) url += `?${literals.join('&')}`;
+      } else if (operation.kind === 'function') {
+        url += `(${literals.join(',')})`;
+      } else {
+        body = parameters;
+      }
+
+      const response = await this.sapClient.executeServiceOperation(
+        url,
+        operation.httpMethod,
+        body,
+        auth.userJWT,
+        { servicePath: service.url, ifMatch: args.ifMatch as string | undefined, signal }
+      );
+
+      let responseText = `✅ Executed ${operation.kind} '${operation.name}' on ${service.title}\n\n`;
+      responseText += JSON.stringify(response.data ?? { success: true }, null, 2);
+      const messages = this.sapClient.extractMessages(response);
+      if (messages.length > 0) {
+        responseText += `\n\n${this.formatSAPMessages(messages)}`;
+      }
+      if (response.retries > 0) {
+        responseText += `\n\n🔁 Succeeded after ${response.retries} automatic ${response.retries === 1 ? 'retry' : 'retries'} (transient SAP errors)`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: responseText,
+          },
+        ],
+        _meta: { retries: response.retries },
+      };
+    } catch (error) {
+      if (error instanceof SAPRequestCancelledError) {
+        return this.buildCancelledResult('execute-service-operation', error);
+      }
+      this.logger.error('Error executing service operation:', error);
+      if (error instanceof SAPBusinessError) {
+        return this.buildBusinessErrorResult(error, { operation: args.operationName });
+      }
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `❌ Error executing service operation: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Path of an operation relative to the service root
+   * Bound V4 operations are addressed through their entity (set) with the qualified name
+   */
+  private buildOperationPath(
+    service: ODataService,
+    operation: ServiceOperation,
+    keys?: Record<string, unknown>
+  ): string {
+    if (!operation.binding) {
+      return operation.name;
+    }
+
+    const binding = operation.binding;
+    const entityType = service.metadata?.entityTypes.find(
+      e => `${e.namespace}.${e.name}` === binding.entityType
+    );
+    if (!entityType?.entitySet) {
+      throw new Error(`No entity set found for bound type '${binding.entityType}'`);
+    }
+
+    const qualifiedName = `${operation.namespace}.${operation.name}`;
+    if (binding.isCollection) {
+      return `${entityType.entitySet}/${qualifiedName}`;
+    }
+    if (!keys) {
+      throw new Error(
+        `Operation '${operation.name}' is bound to a single ${entityType.name}: provide its keys (${entityType.keys.join(', ')})`
+      );
+    }
+    return `${entityType.entitySet}(${this.buildKeyValue(entityType, keys, service.odataVersion)})/${qualifiedName}`;
+  }
+
+  /**
+   * Draft lifecycle operations need a draft root, draft nodes change through their root's draft
+   */
+  private requireDraftRoot(
+    entityType: EntityType
+  ): DraftInfo & { editAction: string; activationAction: string } {
+    if (!entityType.draft) {
+      throw new Error(
+        `Entity '${entityType.name}' is not draft-enabled, use 'update' to change it directly`
+      );
+    }
+    const { root, editAction, activationAction } = entityType.draft;
+    if (!root || !editAction || !activationAction) {
+      throw new Error(
+        `Entity '${entityType.name}' is a draft node: edit and activate the draft of its root entity, changes to this entity are made with 'update' on the draft`
+      );
+    }
+    return { ...entityType.draft, editAction, activationAction };
+  }
+
+  /**
+   * Invoke a draft action: V4 bound action on the entity, V2 function import with the keys
+   * as parameters. Only parameters the action declares are sent.
+   */
+  private async invokeDraftAction(
+    service: ODataService,
+    entityType: EntityType,
+    actionName: string,
+    keys: Record<string, unknown>,
+    parameters: Record<string, unknown>,
+    userJWT: string | undefined,
+    options: { ifMatch?: string; signal?: AbortSignal }
+  ) {
+    const qualifiedType = `${entityType.namespace}.${entityType.name}`;
+    const operation = service.metadata?.operations?.find(
+      candidate =>
+        candidate.name === actionName &&
+        (!candidate.binding || candidate.binding.entityType === qualifiedType)
+    );
+    if (!operation) {
+      throw new Error(
+        `Draft action '${actionName}' of ${entityType.name} not found in the metadata`
+      );
+    }
+
+    let url = `${service.url}${this.buildOperationPath(service, operation, keys)}`;
+    let body: Record<string, unknown> | undefined;
+    if (operation.binding) {
+      body = Object.fromEntries(
+        operation.parameters
+          .filter(p => parameters[p.name] !== undefined)
+          .map(p => [p.name, parameters[p.name]])
+      );
+    } else {
+      const values: Record<string, unknown> = { ...keys, ...parameters };
+      const literals = operation.parameters
+        .filter(p => values[p.name] !== undefined)
+        .map(
+          p =>
+            `${p.name}=${ODataLiteralUtils.encode(ODataLiteralUtils.formatLiteral(values[p.name], p.type, service.odataVersion, p.name))}`
+        );
+      if (literals.length > 0) url += `?${literals.join('&')}`;
+    }
+
+    return this.sapClient.executeServiceOperation(url, operation.httpMethod, body, userJWT, {
+      servicePath: service.url,
+      ifMatch: options.ifMatch,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Download or upload the /$value stream of a media entity
+   */
+  private async executeMediaOperation(args: Record<string, unknown>, signal?: AbortSignal) {
+    try {
+      const serviceId = args.serviceId as string;
+      const entityName = args.entityName as string;
+      const operation = args.operation as 'download' | 'upload';
+      const keys = args.keys as Record<string, unknown> | undefined;
+
+      const auth = await this.authorizeRuntimeToolCall('execute-media-operation', args);
+      if (!auth.authorized) {
+        return auth.response;
+      }
+
+      const service = await this.findService(serviceId);
+      if (!service) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `❌ Service not found: ${serviceId}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const entityType = service.metadata?.entityTypes?.find(e => e.name === entityName);
+      if (!entityType?.entitySet) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `❌ Entity '${entityName}' not found in service '${serviceId}'`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (!entityType.hasStream) {
+        const mediaEntities = (service.metadata?.entityTypes || [])
+          .filter(e => e.hasStream)
+          .map(e => e.name);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `❌ Entity '${entityName}' is not a media entity (no HasStream in the metadata)\n\n📋 Media entities: ${mediaEntities.join(', ') || 'none'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const entityPath = keys
+        ? `${entityType.entitySet}(${this.buildKeyValue(entityType, keys, service.odataVersion)})`
+        : undefined;
+
+      if (operation === 'download') {
+        if (!entityPath) {
+          throw new Error(
+            `Provide the keys of the ${entityName} to download (${entityType.keys.join(', ')})`
+          );
+        }
+        const media = await this.sapClient.downloadMedia(
+          `${service.url}${entityPath}/$value`,
+          auth.userJWT,
+          { servicePath: service.url, signal }
+        );
+
+        let responseText = `✅ Downloaded ${media.content.length} bytes (${media.contentType}) from ${entityPath}`;
+        if (media.etag) {
+          responseText += `\n\n🏷️ ETag: ${media.etag}`;
+        }
+        if (media.retries > 0) {
+          responseText += `\n\n🔁 Succeeded after ${media.retries} automatic ${media.retries === 1 ? 'retry' : 'retries'} (transient SAP errors)`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: responseText,
+            },
+            {
+              type: 'resource' as const,
+              resource: {
+                uri: `sap://service/${serviceId}/${entityPath}/$value`,
+                mimeType: media.contentType.split(';')[0].trim(),
+                blob: media.content.toString('base64'),
+              },
+            },
+          ],
+          _meta: { retries: media.retries },
+        };
+      }
+
+      const encoded = ((args.content as string | undefined) || '').replace(/\s/g, '');
+      if (!encoded || !/^[A-Za-z0-9+/]*={0,2}$/.test(encoded)) {
+        throw new Error("Pass the content to upload base64 encoded in 'content'");
+      }
+      const contentType = (args.contentType as string | undefined) || 'application/octet-stream';
+
+      const response = await this.sapClient.uploadMedia(
+        entityPath ? 'PUT' : 'POST',
+        entityPath ? `${service.url}${entityPath}/$value` : `${service.url}${entityType.entitySet}`,
+        Buffer.from(encoded, 'base64'),
+        contentType,
+        auth.userJWT,
+        {
+          servicePath: service.url,
+          slug: args.slug as string | undefined,
+          ifMatch: args.ifMatch as string | undefined,
+          signal,
+        }
+      );
+
+      let responseText = entityPath
+        ? `✅ Replaced content of ${entityPath} (${contentType})`
+        : `✅ Created ${entityName} from uploaded content (${contentType})`;
+      if (response.data && typeof response.data === 'object') {
+        const created = this.sapClient.normalizeResponse(response.data, {
+          entityType,
+          complexTypes: service.metadata?.complexTypes,
+          etag: this.sapClient.extractETag(response),
+        });
+        responseText += `\n\n${JSON.stringify(created, null, 2)}`;
+      }
+      const messages = this.sapClient.extractMessages(response);
+      if (messages.length > 0) {
+        responseText += `\n\n${this.formatSAPMessages(messages)}`;
+      }
+      if (response.retries > 0) {
+        responseText += `\n\n🔁 Succeeded after ${response.retries} automatic ${response.retries === 1 ? 'retry' : 'retries'} (transient SAP errors)`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: responseText,
+          },
+        ],
+        _meta: { retries: response.retries },
+      };
+    } catch (error) {
+      if (error instanceof SAPRequestCancelledError) {
+        return this.buildCancelledResult('execute-media-operation', error);
+      }
+      this.logger.error('Error executing media operation:', error);
+      if (error instanceof SAPConcurrencyError) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  error: 'concurrent_modification',
+                  message: `❌ ${error.message}`,
+                  entity: args.entityName,
+                  sentEtag: args.ifMatch,
+                  action: "Download the content again and retry with its current ETag as 'ifMatch'",
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (error instanceof SAPBusinessError) {
+        return this.buildBusinessErrorResult(error, {
+          entity: args.entityName,
+          operation: args.operation,
+        });
+      }
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `❌ Error executing media operation: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Execute several entity operations in a single $batch request
+   */
+  private async executeBatchOperations(args: Record<string, unknown>, signal?: AbortSignal) {
+    try {
+      const serviceId = args.serviceId as string;
+      const entries = (args.operations as BatchToolEntry[]) || [];
+
+      const auth = await this.authorizeRuntimeToolCall('execute-batch-operations', args);
+      if (!auth.authorized) {
+        return auth.response;
+      }
+
+      const service = await this.findService(serviceId);
+      if (!service) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `❌ Service not found: ${serviceId}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const atomic = args.atomic === true;
+      const operations = entries.map((entry, index) =>
+        this.buildBatchOperation(
+          service,
+          atomic &&
+            !entry.changeset &&
+            entry.operation !== 'read' &&
+            entry.operation !== 'read-single'
+            ? { ...entry, changeset: 'atomic' }
+            : entry,
+          String(entry.id ?? index + 1)
+        )
+      );
+
+      const results = await this.sapClient.executeBatch(
+        service.url,
+        operations,
+        service.odataVersion,
+        auth.userJWT,
+        signal
+      );
+
+      const succeeded = results.filter(result => result.success).length;
+      const summary = results.map((result, index) => ({
+        id: result.id,
+        operation: entries[index].operation,
+        entityName: entries[index].entityName,
+        changeset: result.changeset,
+        status: result.status,
+        success: result.success,
+        etag: this.sapClient.extractETag({ data: result.body, headers: result.headers }),
+        data: result.body,
+        error: result.error,
+        messages: result.messages,
+      }));
+
+      // A changeset is committed only if every operation in it succeeded
+      const changesets: Record<string, 'committed' | 'rolled back'> = {};
+      results.forEach(result => {
+        if (result.changeset) {
+          changesets[result.changeset] =
+            result.success && changesets[result.changeset] !== 'rolled back'
+              ? 'committed'
+              : 'rolled back';
+        }
+      });
+
+      // Rolled back changesets and a batch without any success are failures, not partial results
+      const rolledBack = Object.keys(changesets).filter(name => changesets[name] === 'rolled back');
+      const failure =
+        succeeded === 0
+          ? 'no operation succeeded'
+          : rolledBack.length > 0
+            ? `${rolledBack.length === 1 ? 'changeset' : 'changesets'} ${rolledBack.map(name => `'${name}'`).join(', ')} rolled back`
+            : undefined;
+      const counts = `${succeeded} succeeded, ${results.length - succeeded} failed`;
+
+      let responseText = failure
+        ? `❌ $batch request on ${service.title} failed: ${failure} (${counts})\n\n`
+        : `✅ Executed ${results.length} operations on ${service.title} in one $batch request (${counts})\n\n`;
+      responseText += JSON.stringify(
+        Object.keys(changesets).length > 0
+          ? { changesets, results: summary }
+          : { results: summary },
+        null,
+        2
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: responseText,
+          },
+        ],
+        ...(failure && { isError: true }),
+      };
+    } catch (error) {
+      if (error instanceof SAPRequestCancelledError) {
+        return this.buildCancelledResult('execute-batch-operations', error);
+      }
+      this.logger.error('Error executing batch operations:', error);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `❌ Error executing batch operations: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Translate a batch tool entry into a $batch request relative to the service root
+   */
+  private buildBatchOperation(
+    service: ODataService,
+    entry: BatchToolEntry,
+    id: string
+  ): BatchOperation {
+    const entityName = entry.entityName;
+    const parameters = entry.parameters || {};
+    const entityType = service.metadata?.entityTypes?.find(e => e.name === entityName);
+    if (!entityType) {
+      throw new Error(
+        `Operation ${id}: entity '${entityName}' not found in service '${service.id}'`
+      );
+    }
+
+    const headers: Record<string, string> = entry.ifMatch ? { 'If-Match': entry.ifMatch } : {};
+    const changeset = entry.changeset;
+
+    if (entry.target) {
+      if (entry.operation === 'read' || entry.operation === 'read-single') {
+        throw new Error(`Operation ${id}: 'target' is only supported for create/update/delete`);
+      }
+      if (!/^\$[A-Za-z0-9_.-]+(\/[A-Za-z0-9_]+)?$/.test(entry.target)) {
+        throw new Error(
+          `Operation ${id}: invalid target '${entry.target}', expected '$<id>' or '$<id>/<navigationProperty>'`
+        );
+      }
+      if (entry.operation === 'create' && !entry.target.includes('/')) {
+        throw new Error(
+          `Operation ${id}: create requires a navigation target such as '${entry.target}/to_Item'`
+        );
+      }
+      if (entry.operation !== 'create' && entry.target.includes('/')) {
+        throw new Error(`Operation ${id}: ${entry.operation} requires a plain '$<id>' target`);
+      }
+    }
+
+    switch (entry.operation) {
+      case 'read':
+        return {
+          id,
+          method: 'GET',
+          url: this.buildReadUrl(
+            '',
+            entityType.entitySet!,
+            entry.queryOptions || {},
+            service.odataVersion,
+            { metadata: service.metadata, entityType }
+          ),
+        };
+
+      case 'read-single':
+        return {
+          id,
+          method: 'GET',
+          url: `${entityType.entitySet!}(${this.buildKeyValue(entityType, parameters, service.odataVersion)})`,
+        };
+
+      case 'create':
+        if (!entityType.creatable) {
+          throw new Error(
+            `Operation ${id}: entity '${entityName}' does not support create operations`
+          );
+        }
+        return {
+          id,
+          method: 'POST',
+          url: entry.target || entityType.entitySet!,
+          body: this.prepareDeepInsert(service, entityType, parameters, `Operation ${id}`).payload,
+          changeset,
+        };
+
+      case 'update': {
+        if (!entityType.updatable) {
+          throw new Error(
+            `Operation ${id}: entity '${entityName}' does not support update operations`
+          );
+        }
+        const body = { ...parameters };
+        entityType.keys.forEach(key => delete body[key]);
+        CsdlUtils.validateStructure(service.metadata, entityType, body, `Operation ${id}`);
+        return {
+          id,
+          method: 'PATCH',
+          url:
+            entry.target ||
+            `${entityType.entitySet!}(${this.buildKeyValue(entityType, parameters, service.odataVersion)})`,
+          headers,
+          body,
+          changeset,
+        };
+      }
+
+      case 'delete':
+        if (!entityType.deletable) {
+          throw new Error(
+            `Operation ${id}: entity '${entityName}' does not support delete operations`
+          );
+        }
+        return {
+          id,
+          method: 'DELETE',
+          url:
+            entry.target ||
+            `${entityType.entitySet!}(${this.buildKeyValue(entityType, parameters, service.odataVersion)})`,
+          headers,
+          changeset,
+        };
+
+      default:
+        throw new Error(`Operation ${id}: unsupported operation '${entry.operation}'`);
+    }
+  }
+
+  /**
+   * Build key value for entity operations (handles single and composite keys)
+   * Literals follow the Edm type of each key property and the service's OData version
+   */
+  private buildKeyValue(
+    entityType: EntityType,
+    parameters: Record<string, unknown>,
+    odataVersion: 'v2' | 'v4'
+  ): string {
+    const keyProperties = entityType.keys.map(
+      key => entityType.properties.find(p => p.name === key) || { name: key, type: 'Edm.String' }
+    );
+    return ODataLiteralUtils.buildKeyPredicate(keyProperties, parameters, odataVersion);
+  }
+
+  /**
+   * Build URL for read operations with query parameters
+   */
+  private buildReadUrl(
+    serviceUrl: string,
+    entitySet: string,
+    queryOptions: Record<string, any>,
+    odataVersion: 'v2' | 'v4',
+    target?: QueryTarget
+  ): string {
+    let url = `${serviceUrl}${entitySet}`;
+
     if (queryOptions) {
+      this.validateQueryOptions(queryOptions, odataVersion, target);
+
       const params = new URLSearchParams();
       Object.entries(queryOptions).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
+        if (key === '$count') {
+          // V2 has no $count query option, the inline count is requested with $inlinecount
+          if (value === true) {
+            params.set(
+              odataVersion === 'v4' ? '$count' : '$inlinecount',
+              odataVersion === 'v4' ? 'true' : 'allpages'
+            );
+          }
+        } else if (value !== undefined && value !== null) {
           params.set(key, String(value));
         }
       });
@@ -1996,6 +3738,102 @@ export class HierarchicalSAPToolRegistry {
     return url;
   }
 
+  /**
+   * Reject query options the service's OData version does not support, and with the target
+   * entity type known $select, $orderby and $expand paths naming no property of it
+   */
+  private validateQueryOptions(
+    queryOptions: Record<string, unknown>,
+    odataVersion: 'v2' | 'v4',
+    target?: QueryTarget
+  ) {
+    const used = V4_ONLY_QUERY_OPTIONS.filter(
+      option => queryOptions[option] !== undefined && queryOptions[option] !== null
+    );
+    if (used.length > 0 && odataVersion !== 'v4') {
+      throw new Error(
+        `${used.join(', ')} ${used.length > 1 ? 'are' : 'is'} only supported by OData V4 services, this service uses OData V2. Use $filter/$select instead; on V2 analytical services, select dimension and measure properties to aggregate.`
+      );
+    }
+
+    for (const option of used) {
+      const value = queryOptions[option];
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`${option} must not be empty`);
+      }
+    }
+
+    if (typeof queryOptions.$apply === 'string') {
+      // Transformations are separated by '/' outside of parentheses and quotes
+      const transformations = this.splitQueryOption('$apply', queryOptions.$apply, '/');
+      for (const transformation of transformations) {
+        const name = transformation.trim().split('(')[0].trim();
+        if (!APPLY_TRANSFORMATIONS.includes(name)) {
+          throw new Error(
+            `Unsupported $apply transformation '${name}'. Supported: ${APPLY_TRANSFORMATIONS.join(', ')}`
+          );
+        }
+      }
+    }
+
+    if (target) {
+      // Aliases introduced by $apply and $compute are only known to the server
+      const options = ['$expand'];
+      if (queryOptions.$apply === undefined && queryOptions.$compute === undefined) {
+        options.push('$select', '$orderby');
+      }
+      for (const option of options) {
+        const value = queryOptions[option];
+        if (typeof value !== 'string') {
+          continue;
+        }
+        for (const item of this.splitQueryOption(option, value, ',')) {
+          // V4 nested options of an expanded property, sort direction of $orderby
+          const path = item
+            .split('(')[0]
+            .trim()
+            .replace(/\s+(asc|desc)$/i, '');
+          if (path) {
+            CsdlUtils.validatePropertyPath(
+              target.metadata,
+              target.entityType,
+              path,
+              option,
+              option === '$expand'
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Split a query option value at a separator outside of parentheses and quotes
+   */
+  private splitQueryOption(option: string, value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quoted = false;
+    let current = '';
+    for (const char of value) {
+      if (char === "'") quoted = !quoted;
+      if (!quoted && char === '(') depth++;
+      if (!quoted && char === ')') depth--;
+      if (!quoted && depth === 0 && char === separator) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+
+    if (depth !== 0 || quoted) {
+      throw new Error(`${option} has unbalanced parentheses or quotes: ${value}`);
+    }
+    return parts;
+  }
+
   /**
    * Register service metadata resources and workflow guides
    */
@@ -2014,7 +3852,7 @@ export class HierarchicalSAPToolRegistry {
       },
       async (uri, variables) => {
         const serviceId = typeof variables.serviceId === 'string' ? variables.serviceId : '';
-        const service = this.discoveredServices.find(s => s.id === serviceId);
+        const service = await this.findService(serviceId);
         if (!service) {
           throw new Error(`Service not found: ${serviceId}`);
         }
@@ -2043,6 +3881,8 @@ export class HierarchicalSAPToolRegistry {
                         deletable: entity.deletable,
                       },
                     })) || [],
+                  complexTypes: service.metadata?.complexTypes || [],
+                  enumTypes: service.metadata?.enumTypes || [],
                 },
                 null,
                 2
@@ -2070,11 +3910,17 @@ export class HierarchicalSAPToolRegistry {
               {
                 totalServices: this.discoveredServices.length,
                 categories: Array.from(new Set(Array.from(this.serviceCategories.values()).flat())),
+                metadataStatus: this.getMetadataSummary(),
                 services: this.discoveredServices.map(service => ({
                   id: service.id,
                   title: service.title,
                   description: service.description,
+                  odataVersion: service.odataVersion,
                   entityCount: service.metadata?.entityTypes?.length || 0,
+                  metadataStatus: service.metadataStatus?.state,
+                  metadataError: service.metadataStatus?.error,
+                  metadataStale: service.metadataStatus?.stale,
+                  metadataCachedAt: service.metadataStatus?.cachedAt,
                   categories: this.serviceCategories.get(service.id) || [],
                 })),
               },
@@ -2,6 +2,7 @@ import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mc
 import { SAPClient } from '../services/sap-client.js';
 import { Logger } from '../utils/logger.js';
 import { ODataService, EntityType } from '../types/sap-types.js';
+import { ODataLiteralUtils } from '../utils/odata-literals.js';
 import { z } from 'zod';
 import { createHash } from 'node:crypto';
 
@@ -200,8 +201,8 @@ export class SAPToolRegistry {
         inputSchema: keySchema,
       },
       async (args: Record<string, unknown>) => {
-        const keyValue = this.buildKeyValue(keyProperties, args);
         try {
+          const keyValue = this.buildKeyValue(keyProperties, args, service.odataVersion);
           const response = await this.sapClient.readEntity(
             service.url,
             entityType.entitySet!,
@@ -313,10 +314,10 @@ export class SAPToolRegistry {
         inputSchema: updateSchema,
       },
       async (args: Record<string, unknown>) => {
-        const keyValue = this.buildKeyValue(keyProperties, args);
         const updateData = { ...args };
         keyProperties.forEach(prop => delete updateData[prop.name]);
         try {
+          const keyValue = this.buildKeyValue(keyProperties, args, service.odataVersion);
           const response = await this.sapClient.updateEntity(
             service.url,
             entityType.entitySet!,
@@ -364,8 +365,8 @@ export class SAPToolRegistry {
         inputSchema: keySchema,
       },
       async (args: Record<string, unknown>) => {
-        const keyValue = this.buildKeyValue(keyProperties, args);
         try {
+          const keyValue = this.buildKeyValue(keyProperties, args, service.odataVersion);
           await this.sapClient.deleteEntity(service.url, entityType.entitySet!, keyValue);
           return {
             content: [
@@ -393,13 +394,10 @@ export class SAPToolRegistry {
 
   private buildKeyValue(
     keyProperties: { name: string; type: string }[],
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    odataVersion: 'v2' | 'v4'
   ): string {
-    if (keyProperties.length === 1) {
-      return String(args[keyProperties[0].name]);
-    }
-    const keyParts = keyProperties.map(prop => `${prop.name}='${args[prop.name]}'`);
-    return keyParts.join(',');
+    return ODataLiteralUtils.buildKeyPredicate(keyProperties, args, odataVersion);
   }
 
   private getZodSchemaForODataType(odataType: string): z.ZodTypeAny {
@@ -5,15 +5,32 @@ export interface ODataService {
   title: string;
   description: string;
   odataVersion: 'v2' | 'v4';
+  technicalName?: string; // Technical service name, the same in the V2 and V4 catalog
   url: string;
   metadataUrl: string;
   entitySets: string[];
   metadata: ServiceMetadata | null;
+  metadataStatus?: MetadataStatus;
 }
 
+// Loading state of a service's $metadata, see SAPDiscoveryService.ensureMetadata
+export interface MetadataStatus {
+  state: 'pending' | 'loaded' | 'failed';
+  error?: string; // Reason of the last failed attempt, the next use of the service retries
+  updatedAt: string;
+  stale?: boolean; // Served from the metadata cache because the backend could not be reached
+  cachedAt?: string; // When the served cache entry was stored
+}
+
+// CSDL model of a service for V2 and V4. Type references are namespace-qualified (aliases resolved)
 export interface ServiceMetadata {
   entityTypes: EntityType[];
   entitySets: Array<{ [key: string]: string | null }>;
+  complexTypes: ComplexType[];
+  enumTypes: EnumType[];
+  associations: Association[]; // V2 only, V4 declares relationships on the navigation property
+  associationSets: AssociationSet[];
+  operations: ServiceOperation[];
   version: string;
   namespace: string;
 }
@@ -22,6 +39,7 @@ export interface EntityType {
   name: string;
   entitySet: string | null | undefined;
   namespace: string;
+  baseType?: string; // Inherited keys and properties are already included
   properties: Property[];
   navigationProperties: NavigationProperty[];
   keys: string[];
@@ -29,17 +47,153 @@ export interface EntityType {
   updatable: boolean;
   deletable: boolean;
   addressable: boolean;
+  hasStream: boolean; // Media entity: binary content is read and written through /$value
+  draft?: DraftInfo; // Set for draft-enabled entities (IsActiveEntity key)
+  label?: string; // sap:label, Common.Label
+  requiresFilter?: boolean; // Collection reads need $filter (sap:requires-filter, FilterRestrictions)
+  lineItem?: string[]; // UI.LineItem: properties shown in lists
+  selectionFields?: string[]; // UI.SelectionFields: properties usually filtered on
+}
+
+// SAP Fiori draft (RAP / BOPF): roots carry the lifecycle actions,
+// draft nodes are edited through the draft of their root
+export interface DraftInfo {
+  root: boolean;
+  editAction?: string; // Operation names as in ServiceOperation.name
+  activationAction?: string;
+  preparationAction?: string;
+}
+
+// Structured type without key, used for nested properties (e.g. an address)
+export interface ComplexType {
+  name: string;
+  namespace: string;
+  baseType?: string;
+  properties: Property[];
+  navigationProperties: NavigationProperty[]; // V4 only
+}
+
+export interface EnumType {
+  name: string;
+  namespace: string;
+  underlyingType: string;
+  isFlags: boolean; // Values may be combined, e.g. "Red,Blue"
+  members: Array<{ name: string; value: number }>;
 }
 
 export interface Property {
   name: string;
-  type: string;
+  type: string; // Edm primitive, complex or enum type, V4 also Collection(...)
   nullable: boolean;
   maxLength?: string;
+  precision?: number;
+  scale?: number | 'variable' | 'floating';
+  defaultValue?: string;
+  // Annotations: V2 sap:* attributes, V4 vocabularies. Flags are only false when restricted
+  label?: string;
+  filterable?: boolean; // sap:filterable, Capabilities.FilterRestrictions
+  sortable?: boolean; // sap:sortable, Capabilities.SortRestrictions
+  requiredInFilter?: boolean; // sap:required-in-filter, FilterRestrictions.RequiredProperties
+  creatable?: boolean; // sap:creatable, Core.Computed
+  updatable?: boolean; // sap:updatable, Core.Computed, Core.Immutable
+  unit?: string; // Property holding the unit or currency (sap:unit, Measures.Unit/ISOCurrency)
+  text?: string; // Property holding the description (sap:text, Common.Text)
+  displayFormat?: string; // sap:display-format, e.g. Date, UpperCase, NonNegative
 }
 
 export interface NavigationProperty {
   name: string;
-  type: string;
+  type: string; // Qualified name of the target entity type
   multiplicity: '1' | '0..1' | '*';
+  referentialConstraints: ReferentialConstraint[];
+  partner?: string; // V4 navigation property of the target pointing back
+  containsTarget?: boolean; // V4 containment, targets are only addressable through this property
+  relationship?: string; // V2 association
+}
+
+// Property of the source entity type whose value equals a property of the target entity type
+export interface ReferentialConstraint {
+  property: string;
+  referencedProperty: string;
+}
+
+export interface Association {
+  name: string;
+  namespace: string;
+  ends: Array<{ role: string; type: string; multiplicity: '1' | '0..1' | '*' }>;
+  referentialConstraint?: {
+    principalRole: string;
+    principalProperties: string[];
+    dependentRole: string;
+    dependentProperties: string[];
+  };
+}
+
+export interface AssociationSet {
+  name: string;
+  association: string; // Qualified association name
+  ends: Array<{ role: string; entitySet: string }>;
+}
+
+// Version-independent shape of a read/write result, see SAPClient.normalizeResponse
+export interface NormalizedResponse {
+  items: Array<Record<string, unknown>>;
+  count?: number;
+  nextCursor?: string;
+  etag?: string;
+}
+
+// V2 FunctionImport, V4 Action/Function (bound or exposed through an ActionImport/FunctionImport)
+export interface ServiceOperation {
+  name: string; // Import name for unbound operations, operation name for bound ones
+  kind: 'function' | 'action';
+  httpMethod: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  namespace: string;
+  parameters: OperationParameter[]; // Without the V4 binding parameter
+  returnType?: string; // e.g. 'Edm.String' or 'Collection(NS.Type)'
+  entitySet?: string; // Entity set of the returned entities
+  binding?: OperationBinding; // V4 bound operations only
+}
+
+export interface OperationParameter {
+  name: string;
+  type: string;
+  nullable: boolean;
+}
+
+export interface OperationBinding {
+  parameterName: string;
+  entityType: string; // Qualified name of the bound entity type
+  isCollection: boolean;
+}
+
+export type BatchHttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+export interface BatchOperation {
+  id: string; // Also used as Content-ID, so later operations can reference it as $<id>
+  method: BatchHttpMethod;
+  url: string; // Relative to the service root, or a $<id> reference within a changeset
+  headers?: Record<string, string>;
+  body?: unknown;
+  changeset?: string; // Operations with the same changeset commit or roll back together
+}
+
+export interface BatchOperationResult {
+  id: string;
+  changeset?: string;
+  status: number;
+  success: boolean;
+  headers: Record<string, string>;
+  body?: unknown;
+  error?: string;
+  messages?: SAPMessage[]; // Field-level details of a failed operation
+}
+
+// A message from an SAP Gateway error body (innererror.errordetails / details) or sap-message header
+export interface SAPMessage {
+  code?: string; // Message class and number, e.g. "VL/123"
+  message: string;
+  target?: string; // Property the message refers to
+  severity: 'error' | 'warning' | 'info' | 'success';
+  longtextUrl?: string;
 }
@@ -0,0 +1,162 @@
+import { Logger } from './logger.js';
+import { Config } from './config.js';
+import { SAPBackendUnavailableError } from './sap-errors.js';
+
+const logger = new Logger('CircuitBreaker');
+
+/**
+ * closed: requests pass, consecutive backend failures are counted
+ * open: requests fail immediately until the reset timeout has passed
+ * half-open: a single trial request decides whether the circuit closes or opens again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  destination: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAfterSeconds?: number; // Until the next trial request is let through
+  lastError?: string;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+  lastError?: string;
+}
+
+/**
+ * Circuit breakers for SAP backends, keyed by destination name
+ * Shared by all SAPClient instances so every MCP session sees the same backend state
+ */
+export class CircuitBreakerRegistry {
+  private static instance: CircuitBreakerRegistry;
+  private circuits = new Map<string, Circuit>();
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  private constructor(config: Config) {
+    this.failureThreshold = config.get<number>('circuitBreaker.failureThreshold', 5);
+    this.resetTimeout = config.get<number>('circuitBreaker.resetTimeout', 30000);
+  }
+
+  public static getInstance(): CircuitBreakerRegistry {
+    if (!CircuitBreakerRegistry.instance) {
+      CircuitBreakerRegistry.instance = new CircuitBreakerRegistry(new Config());
+    }
+    return CircuitBreakerRegistry.instance;
+  }
+
+  /**
+   * A failure threshold of 0 disables the breaker
+   */
+  get enabled(): boolean {
+    return this.failureThreshold > 0;
+  }
+
+  /**
+   * Let a request through or fail fast with SAPBackendUnavailableError
+   */
+  acquire(destination: string): void {
+    const circuit = this.circuits.get(destination);
+    if (!this.enabled || !circuit || circuit.state === 'closed') {
+      return;
+    }
+
+    if (circuit.state === 'open' && this.getRemaining(circuit) === 0) {
+      circuit.state = 'half-open';
+      circuit.trialInFlight = false;
+      logger.info(`Circuit for destination '${destination}' is half-open, sending trial request`);
+    }
+
+    if (circuit.state === 'half-open' && !circuit.trialInFlight) {
+      circuit.trialInFlight = true;
+      return;
+    }
+
+    const retryAfterSeconds = Math.max(1, Math.ceil(this.getRemaining(circuit) / 1000));
+    throw new SAPBackendUnavailableError(destination, retryAfterSeconds, circuit.lastError);
+  }
+
+  /**
+   * The backend answered (any HTTP status it produced itself counts as reachable)
+   */
+  recordSuccess(destination: string): void {
+    const circuit = this.circuits.get(destination);
+    if (!circuit) {
+      return;
+    }
+    if (circuit.state !== 'closed') {
+      logger.info(`Circuit for destination '${destination}' closed, backend is reachable again`);
+    }
+    this.circuits.delete(destination);
+  }
+
+  /**
+   * The request ended without telling anything about the backend (e.g. cancelled by the client)
+   * Frees the trial slot of a half-open circuit so the next request can probe the backend
+   */
+  release(destination: string): void {
+    const circuit = this.circuits.get(destination);
+    if (circuit?.state === 'half-open') {
+      circuit.trialInFlight = false;
+    }
+  }
+
+  /**
+   * The backend was unreachable, timed out or reported itself unavailable
+   */
+  recordFailure(destination: string, reason: string): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const circuit = this.circuits.get(destination) || {
+      state: 'closed' as CircuitState,
+      failures: 0,
+      trialInFlight: false,
+    };
+    circuit.failures++;
+    circuit.lastError = reason;
+    this.circuits.set(destination, circuit);
+
+    if (circuit.state === 'half-open' || circuit.failures >= this.failureThreshold) {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+      circuit.trialInFlight = false;
+      logger.warn(
+        `Circuit for destination '${destination}' opened after ${circuit.failures} consecutive failures: ${reason}`
+      );
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus[] {
+    return Array.from(this.circuits.entries()).map(([destination, circuit]) => ({
+      destination,
+      state: circuit.state,
+      consecutiveFailures: circuit.failures,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : undefined,
+      retryAfterSeconds:
+        circuit.state === 'open' ? Math.ceil(this.getRemaining(circuit) / 1000) : undefined,
+      lastError: circuit.lastError,
+    }));
+  }
+
+  /**
+   * Close one or all circuits, e.g. after the backend was fixed
+   */
+  reset(destination?: string): void {
+    if (destination) {
+      this.circuits.delete(destination);
+    } else {
+      this.circuits.clear();
+    }
+  }
+
+  private getRemaining(circuit: Circuit): number {
+    return Math.max(0, (circuit.openedAt ?? 0) + this.resetTimeout - Date.now());
+  }
+}
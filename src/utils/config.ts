@@ -49,6 +49,35 @@ export class Config {
       parseInt(process.env.REQUEST_TIMEOUT || String(NETWORK_TIMEOUTS.REQUEST_TIMEOUT))
     );
     this.config.set('request.retries', parseInt(process.env.REQUEST_RETRIES || '3'));
+    this.config.set('request.retryDelay', parseInt(process.env.REQUEST_RETRY_DELAY || '500'));
+    this.config.set(
+      'request.retryMaxDelay',
+      parseInt(process.env.REQUEST_RETRY_MAX_DELAY || '30000')
+    );
+    // Below the default Gateway session timeout of 30 minutes, so cached tokens never go stale
+    this.config.set(
+      'request.csrfTokenTtl',
+      parseInt(process.env.REQUEST_CSRF_TOKEN_TTL || '1200000')
+    );
+    this.config.set(
+      'circuitBreaker.failureThreshold',
+      parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5')
+    );
+    this.config.set(
+      'circuitBreaker.resetTimeout',
+      parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT || '30000')
+    );
+    this.loadResponseCacheConfig();
+    this.loadMetadataCacheConfig();
+    this.config.set('paging.maxRecords', parseInt(process.env.PAGING_MAX_RECORDS || '5000'));
+    this.config.set(
+      'media.maxDownloadSizeMb',
+      parseInt(process.env.MEDIA_MAX_DOWNLOAD_SIZE_MB || '10')
+    );
+    this.config.set(
+      'media.maxUploadSizeMb',
+      parseInt(process.env.MEDIA_MAX_UPLOAD_SIZE_MB || '10')
+    );
     this.config.set('log.level', process.env.LOG_LEVEL || 'info');
     this.config.set('node.env', process.env.NODE_ENV || 'development');
 
@@ -70,6 +99,37 @@ export class Config {
     }
   }
 
+  private loadResponseCacheConfig(): void {
+    // Opt-in: cached reads may be up to one TTL old
+    this.config.set('responseCache.enabled', process.env.RESPONSE_CACHE_ENABLED === 'true');
+    this.config.set('responseCache.ttl', parseInt(process.env.RESPONSE_CACHE_TTL || '60000'));
+    this.config.set(
+      'responseCache.maxEntries',
+      parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '500')
+    );
+    this.config.set(
+      'responseCache.maxSizeMb',
+      parseInt(process.env.RESPONSE_CACHE_MAX_SIZE_MB || '50')
+    );
+
+    // Per-service TTL overrides as JSON, e.g. {"API_BUSINESS_PARTNER": 300000, "API_SALES_ORDER_SRV": 0}
+    let serviceTtls: Record<string, number> = {};
+    if (process.env.RESPONSE_CACHE_SERVICE_TTL) {
+      try {
+        serviceTtls = JSON.parse(process.env.RESPONSE_CACHE_SERVICE_TTL);
+      } catch {
+        this.logger.warn('Ignoring RESPONSE_CACHE_SERVICE_TTL: not a JSON object');
+      }
+    }
+    this.config.set('responseCache.serviceTtls', serviceTtls);
+  }
+
+  private loadMetadataCacheConfig(): void {
+    // Opt-in: parsed metadata is written to the local file system
+    this.config.set('metadataCache.enabled', process.env.METADATA_CACHE_ENABLED === 'true');
+    this.config.set('metadataCache.dir', process.env.METADATA_CACHE_DIR || '.metadata-cache');
+  }
+
   private loadODataServiceConfig(): void {
     // OData service filtering configuration
     // Can be set via environment variables or will use defaults
@@ -124,6 +184,16 @@ export class Config {
 
     // Maximum services to discover (prevents overwhelming the system)
     this.config.set('odata.maxServices', parseInt(process.env.ODATA_MAX_SERVICES || '50'));
+
+    // $metadata loading: 'eager' during discovery, 'lazy' on the first use of a service
+    this.config.set(
+      'odata.metadataLoading',
+      process.env.ODATA_METADATA_LOADING === 'lazy' ? 'lazy' : 'eager'
+    );
+    this.config.set(
+      'odata.metadataConcurrency',
+      parseInt(process.env.ODATA_METADATA_CONCURRENCY || '5')
+    );
   }
 
   /**
@@ -362,6 +432,8 @@ export class Config {
       servicePatterns: this.get('odata.servicePatterns', []),
       exclusionPatterns: this.get('odata.exclusionPatterns', []),
       maxServices: this.get('odata.maxServices', 50),
+      metadataLoading: this.get('odata.metadataLoading', 'eager'),
+      metadataConcurrency: this.get('odata.metadataConcurrency', 5),
     };
   }
 
@@ -0,0 +1,170 @@
+import {
+  ServiceMetadata,
+  EntityType,
+  ComplexType,
+  EnumType,
+  NavigationProperty,
+  Property,
+} from '../types/sap-types.js';
+
+/**
+ * Lookups and payload checks against the CSDL model of a service
+ */
+export class CsdlUtils {
+  /**
+   * Element type of a V4 Collection(...) type reference
+   */
+  static parseTypeReference(type: string): { type: string; isCollection: boolean } {
+    const collection = /^Collection\((.*)\)$/.exec(type);
+    return collection ? { type: collection[1], isCollection: true } : { type, isCollection: false };
+  }
+
+  static findComplexType(
+    metadata: ServiceMetadata | null | undefined,
+    type: string
+  ): ComplexType | undefined {
+    const { type: qualified } = this.parseTypeReference(type);
+    return metadata?.complexTypes?.find(
+      complexType => `${complexType.namespace}.${complexType.name}` === qualified
+    );
+  }
+
+  static findEnumType(
+    metadata: ServiceMetadata | null | undefined,
+    type: string
+  ): EnumType | undefined {
+    const { type: qualified } = this.parseTypeReference(type);
+    return metadata?.enumTypes?.find(
+      enumType => `${enumType.namespace}.${enumType.name}` === qualified
+    );
+  }
+
+  /**
+   * Check the properties of a payload, nested complex values and enum members
+   * Annotations (@...) and V2 metadata (__...) are ignored, navigation properties are left to
+   * the caller. Throws on the first mismatch with the path of the offending value.
+   */
+  static validateStructure(
+    metadata: ServiceMetadata | null | undefined,
+    type: EntityType | ComplexType,
+    payload: Record<string, unknown>,
+    path: string
+  ): void {
+    Object.entries(payload).forEach(([name, value]) => {
+      if (name.startsWith('__') || name.startsWith('@') || name.includes('@odata.')) {
+        return;
+      }
+      const property = type.properties.find(prop => prop.name === name);
+      if (property) {
+        this.validateValue(metadata, property, value, `${path}/${name}`);
+      } else if (!type.navigationProperties.some(nav => nav.name === name)) {
+        throw new Error(`Unknown property '${name}' on ${type.name} at '${path}'`);
+      }
+    });
+  }
+
+  /**
+   * Check a property path of a query option, e.g. to_Item/Material: navigation properties lead
+   * to their target type, complex properties to their structure. Type casts, bound operations and
+   * the * wildcard are left to the server.
+   */
+  static validatePropertyPath(
+    metadata: ServiceMetadata | null | undefined,
+    type: EntityType | ComplexType,
+    path: string,
+    option: string,
+    navigationOnly = false
+  ): void {
+    let current: EntityType | ComplexType | undefined = type;
+    const segments = path.split('/');
+    for (const [index, segment] of segments.entries()) {
+      if (!current || segment === '*' || segment.includes('.')) {
+        return;
+      }
+
+      const navigation: NavigationProperty | undefined = current.navigationProperties.find(
+        nav => nav.name === segment
+      );
+      const property = navigationOnly
+        ? undefined
+        : current.properties.find(prop => prop.name === segment);
+      if (!navigation && !property) {
+        throw new Error(
+          `Unknown ${navigationOnly ? 'navigation property' : 'property'} '${segment}' on ${current.name} in ${option} '${path}'`
+        );
+      }
+      if (property && index < segments.length - 1) {
+        const complexType = this.findComplexType(metadata, property.type);
+        if (!complexType) {
+          throw new Error(
+            `'${segment}' on ${current.name} is neither a navigation nor a complex property, ${option} '${path}' cannot continue after it`
+          );
+        }
+        current = complexType;
+      } else {
+        current = navigation
+          ? metadata?.entityTypes.find(e => `${e.namespace}.${e.name}` === navigation.type)
+          : undefined;
+      }
+    }
+  }
+
+  static validateValue(
+    metadata: ServiceMetadata | null | undefined,
+    property: Property,
+    value: unknown,
+    path: string
+  ): void {
+    if (value === null || value === undefined) {
+      return;
+    }
+
+    const { type, isCollection } = this.parseTypeReference(property.type);
+    const complexType = this.findComplexType(metadata, type);
+    const enumType = complexType ? undefined : this.findEnumType(metadata, type);
+    if (!complexType && !enumType) {
+      return;
+    }
+
+    // V2 wraps collections in { results }
+    const items = isCollection
+      ? Array.isArray(value)
+        ? value
+        : (value as { results?: unknown })?.results
+      : [value];
+    if (!Array.isArray(items)) {
+      throw new Error(`'${path}' must be an array of ${type.split('.').pop()} values`);
+    }
+
+    items.forEach((item, index) => {
+      const itemPath = isCollection ? `${path}[${index}]` : path;
+      if (complexType) {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+          throw new Error(`'${itemPath}' must be a ${complexType.name} object`);
+        }
+        this.validateStructure(metadata, complexType, item as Record<string, unknown>, itemPath);
+      } else if (enumType) {
+        this.validateEnumValue(enumType, item, itemPath);
+      }
+    });
+  }
+
+  /**
+   * Member names (comma-separated for flags) or the numeric value
+   */
+  private static validateEnumValue(enumType: EnumType, value: unknown, path: string): void {
+    if (typeof value === 'number' && enumType.members.some(member => member.value === value)) {
+      return;
+    }
+    const names = typeof value === 'string' ? value.split(',').map(name => name.trim()) : [];
+    const valid =
+      names.length > 0 &&
+      (enumType.isFlags || names.length === 1) &&
+      names.every(name => enumType.members.some(member => member.name === name));
+    if (!valid) {
+      throw new Error(
+        `'${path}' must be one of ${enumType.members.map(member => member.name).join(', ')}${enumType.isFlags ? ' (comma-separated)' : ''}`
+      );
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Logger } from './logger.js';
+import { Config } from './config.js';
+import { ServiceMetadata } from '../types/sap-types.js';
+
+const logger = new Logger('MetadataCache');
+
+// Bump when the shape of ServiceMetadata changes, older entries are then downloaded and parsed again
+const METADATA_CACHE_VERSION = 3;
+
+export interface CachedServiceMetadata {
+  version: number;
+  metadata: ServiceMetadata;
+  etag?: string; // Validators of the $metadata response for conditional requests
+  lastModified?: string;
+  storedAt: string;
+}
+
+/**
+ * Storage backend of the metadata cache
+ */
+export interface MetadataCacheStore {
+  get(key: string): Promise<CachedServiceMetadata | undefined>;
+  set(key: string, entry: CachedServiceMetadata): Promise<void>;
+}
+
+/**
+ * One JSON file per service in a local directory
+ */
+export class FileMetadataCacheStore implements MetadataCacheStore {
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<CachedServiceMetadata | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.getFile(key), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CachedServiceMetadata): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write and rename, so a concurrent reader never sees a partial file
+    const file = this.getFile(key);
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry));
+    await fs.rename(temporary, file);
+  }
+
+  private getFile(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Persistent cache of parsed service metadata, shared by all discovery service instances
+ * Entries are keyed by destination and metadata URL. Store failures are logged and treated
+ * as a cache miss: the cache must never prevent metadata from being loaded.
+ */
+export class MetadataCache {
+  private static instance: MetadataCache;
+
+  private constructor(private store?: MetadataCacheStore) {}
+
+  public static getInstance(): MetadataCache {
+    if (!MetadataCache.instance) {
+      const config = new Config();
+      MetadataCache.instance = new MetadataCache(
+        config.get<boolean>('metadataCache.enabled', false)
+          ? new FileMetadataCacheStore(config.get<string>('metadataCache.dir', '.metadata-cache'))
+          : undefined
+      );
+    }
+    return MetadataCache.instance;
+  }
+
+  get enabled(): boolean {
+    return !!this.store;
+  }
+
+  /**
+   * Replace the storage backend, e.g. with a store shared by several application instances
+   */
+  setStore(store?: MetadataCacheStore): void {
+    this.store = store;
+  }
+
+  async get(destination: string, metadataUrl: string): Promise<CachedServiceMetadata | undefined> {
+    if (!this.store) {
+      return undefined;
+    }
+    try {
+      const entry = await this.store.get(this.getKey(destination, metadataUrl));
+      return entry?.version === METADATA_CACHE_VERSION ? entry : undefined;
+    } catch (error) {
+      logger.warn(`Failed to read cached metadata of ${metadataUrl}:`, error);
+      return undefined;
+    }
+  }
+
+  async set(
+    destination: string,
+    metadataUrl: string,
+    entry: Omit<CachedServiceMetadata, 'version' | 'storedAt'>
+  ): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+    try {
+      await this.store.set(this.getKey(destination, metadataUrl), {
+        ...entry,
+        version: METADATA_CACHE_VERSION,
+        storedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.warn(`Failed to cache metadata of ${metadataUrl}:`, error);
+    }
+  }
+
+  private getKey(destination: string, metadataUrl: string): string {
+    return createHash('sha256').update(`${destination}|${metadataUrl}`).digest('hex');
+  }
+}
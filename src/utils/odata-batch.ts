@@ -0,0 +1,380 @@
+import { randomUUID } from 'node:crypto';
+import { BatchOperation, BatchOperationResult } from '../types/sap-types.js';
+import { SAPMessageUtils } from './sap-messages.js';
+
+const CRLF = '\r\n';
+
+/**
+ * A request part of a V2 $batch: a single retrieve request or a changeset of modifying requests
+ */
+interface BatchRequestGroup {
+  changeset: boolean;
+  operations: BatchOperation[];
+}
+
+/**
+ * A raw HTTP response extracted from a multipart $batch response
+ */
+interface ParsedHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Serialization and parsing of OData $batch payloads
+ * V2 uses multipart/mixed, V4 uses the JSON batch format
+ *
+ * Modifying requests sharing a changeset label are sent as one changeset (V2) or
+ * atomicity group (V4), so they commit or roll back together. Within a changeset a
+ * request can address an entity created earlier via its Content-ID: "$1" or "$1/to_Item".
+ */
+export class ODataBatchUtils {
+  /**
+   * Check changeset and Content-ID reference rules before anything is sent
+   */
+  static validateOperations(operations: BatchOperation[]): void {
+    const seen = new Map<string, BatchOperation>();
+
+    for (const operation of operations) {
+      if (!/^[A-Za-z0-9_.-]+$/.test(operation.id)) {
+        throw new Error(
+          `Invalid operation id '${operation.id}': use letters, digits, '_', '.' or '-'`
+        );
+      }
+      if (seen.has(operation.id)) {
+        throw new Error(`Duplicate operation id '${operation.id}'`);
+      }
+      if (operation.changeset && operation.method === 'GET') {
+        throw new Error(
+          `Operation ${operation.id}: read operations cannot be part of changeset '${operation.changeset}'`
+        );
+      }
+
+      const reference = this.getReferencedId(operation.url);
+      if (reference) {
+        const target = seen.get(reference);
+        if (!target || target.method !== 'POST') {
+          throw new Error(
+            `Operation ${operation.id}: '$${reference}' must reference a create operation earlier in the batch`
+          );
+        }
+        if (!operation.changeset || target.changeset !== operation.changeset) {
+          throw new Error(
+            `Operation ${operation.id}: '$${reference}' can only be referenced within the same changeset`
+          );
+        }
+      }
+
+      seen.set(operation.id, operation);
+    }
+  }
+
+  /**
+   * Build a V2 multipart/mixed $batch body
+   * GET requests are sent as individual parts, modifying requests in changesets
+   */
+  static buildMultipartBatch(operations: BatchOperation[]): { body: string; contentType: string } {
+    this.validateOperations(operations);
+    const boundary = `batch_${randomUUID()}`;
+    const groups = this.groupOperations(operations);
+    let body = '';
+
+    for (const group of groups) {
+      body += `--${boundary}${CRLF}`;
+      if (!group.changeset) {
+        body += this.buildHttpPart(group.operations[0]);
+        continue;
+      }
+
+      const changesetBoundary = `changeset_${randomUUID()}`;
+      body += `Content-Type: multipart/mixed; boundary=${changesetBoundary}${CRLF}${CRLF}`;
+      for (const operation of group.operations) {
+        body += `--${changesetBoundary}${CRLF}`;
+        body += this.buildHttpPart(operation);
+      }
+      body += `--${changesetBoundary}--${CRLF}`;
+    }
+    body += `--${boundary}--${CRLF}`;
+
+    return { body, contentType: `multipart/mixed; boundary=${boundary}` };
+  }
+
+  /**
+   * Parse a V2 multipart/mixed $batch response and map it back to the request operations
+   */
+  static parseMultipartBatch(
+    operations: BatchOperation[],
+    body: string,
+    contentType: string
+  ): BatchOperationResult[] {
+    const boundary = this.getBoundary(contentType);
+    if (!boundary) {
+      throw new Error(`Invalid $batch response: missing multipart boundary in '${contentType}'`);
+    }
+
+    const groups = this.groupOperations(operations);
+    const parts = this.splitMultipart(body, boundary);
+    const results: BatchOperationResult[] = [];
+
+    groups.forEach((group, index) => {
+      const part = parts[index];
+      if (!part) {
+        group.operations.forEach(operation =>
+          results.push(this.toResult(operation, { status: 0, headers: {} }, 'No response received'))
+        );
+        return;
+      }
+
+      const partBoundary = this.getBoundary(part.headers['content-type'] || '');
+      if (partBoundary) {
+        // Changeset succeeded: one response per operation
+        const responses = this.splitMultipart(part.body, partBoundary).map(p =>
+          this.parseHttpResponse(p.body)
+        );
+        group.operations.forEach((operation, i) =>
+          results.push(
+            this.toResult(
+              operation,
+              responses[i] || { status: 0, headers: {} },
+              responses[i] ? undefined : 'No response received'
+            )
+          )
+        );
+        return;
+      }
+
+      // Retrieve response, or a single error response for a failed changeset
+      const response = this.parseHttpResponse(part.body);
+      const rolledBack =
+        group.changeset && group.operations.length > 1 && response.status >= 400
+          ? `Rolled back: changeset '${group.operations[0].changeset}' failed`
+          : undefined;
+      group.operations.forEach(operation =>
+        results.push(this.toResult(operation, response, rolledBack))
+      );
+    });
+
+    // Changesets may have moved operations, report them in request order
+    return operations.map(operation => results.find(result => result.id === operation.id)!);
+  }
+
+  /**
+   * Build a V4 JSON $batch body
+   */
+  static buildJsonBatch(operations: BatchOperation[]): { body: string; contentType: string } {
+    this.validateOperations(operations);
+
+    // Requests of an atomicity group must be adjacent
+    const ordered = this.groupOperations(operations).flatMap(group => group.operations);
+    const requests = ordered.map(operation => ({
+      id: operation.id,
+      method: operation.method,
+      url: operation.url,
+      ...(operation.changeset ? { atomicityGroup: operation.changeset } : {}),
+      ...(this.getReferencedId(operation.url)
+        ? { dependsOn: [this.getReferencedId(operation.url)] }
+        : {}),
+      headers: {
+        Accept: 'application/json',
+        ...(operation.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...operation.headers,
+      },
+      ...(operation.body !== undefined ? { body: operation.body } : {}),
+    }));
+
+    return { body: JSON.stringify({ requests }), contentType: 'application/json' };
+  }
+
+  /**
+   * Parse a V4 JSON $batch response and map it back to the request operations
+   */
+  static parseJsonBatch(operations: BatchOperation[], data: unknown): BatchOperationResult[] {
+    const payload = typeof data === 'string' ? JSON.parse(data) : data;
+    const responses = (payload as { responses?: Array<Record<string, unknown>> })?.responses || [];
+
+    return operations.map(operation => {
+      const response = responses.find(r => String(r.id) === operation.id);
+      if (!response) {
+        // A failed atomicity group may be answered with a single error response
+        const groupFailure = operation.changeset
+          ? responses.find(r => {
+              const peer = operations.find(o => o.id === String(r.id));
+              return peer?.changeset === operation.changeset && Number(r.status) >= 400;
+            })
+          : undefined;
+        if (groupFailure) {
+          return this.toResult(
+            operation,
+            { status: Number(groupFailure.status), headers: {}, body: groupFailure.body },
+            `Rolled back: changeset '${operation.changeset}' failed`
+          );
+        }
+        return this.toResult(operation, { status: 0, headers: {} }, 'No response received');
+      }
+      return this.toResult(operation, {
+        status: Number(response.status),
+        headers: (response.headers as Record<string, string>) || {},
+        body: response.body,
+      });
+    });
+  }
+
+  /**
+   * Group operations into batch parts, keeping request order
+   * Labelled changesets are placed at the position of their first operation
+   */
+  private static groupOperations(operations: BatchOperation[]): BatchRequestGroup[] {
+    const groups: BatchRequestGroup[] = [];
+    const changesets = new Map<string, BatchRequestGroup>();
+
+    for (const operation of operations) {
+      if (operation.method === 'GET') {
+        groups.push({ changeset: false, operations: [operation] });
+        continue;
+      }
+      if (!operation.changeset) {
+        groups.push({ changeset: true, operations: [operation] });
+        continue;
+      }
+
+      const existing = changesets.get(operation.changeset);
+      if (existing) {
+        existing.operations.push(operation);
+      } else {
+        const group = { changeset: true, operations: [operation] };
+        changesets.set(operation.changeset, group);
+        groups.push(group);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Referenced Content-ID of a "$<id>" or "$<id>/<navigation>" URL
+   */
+  private static getReferencedId(url: string): string | undefined {
+    return /^\$([A-Za-z0-9_.-]+)(?:\/|$)/.exec(url)?.[1];
+  }
+
+  private static buildHttpPart(operation: BatchOperation): string {
+    let part = `Content-Type: application/http${CRLF}Content-Transfer-Encoding: binary${CRLF}`;
+    if (operation.method !== 'GET') {
+      part += `Content-ID: ${operation.id}${CRLF}`;
+    }
+    part += CRLF;
+    part += `${operation.method} ${operation.url} HTTP/1.1${CRLF}`;
+
+    const headers: Record<string, string> = { Accept: 'application/json', ...operation.headers };
+    const payload = operation.body !== undefined ? JSON.stringify(operation.body) : undefined;
+    if (payload !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = String(Buffer.byteLength(payload));
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      part += `${name}: ${value}${CRLF}`;
+    }
+    part += CRLF;
+    if (payload !== undefined) {
+      part += payload;
+    }
+    return part + CRLF;
+  }
+
+  private static getBoundary(contentType: string): string | undefined {
+    const match = /boundary=("?)([^";]+)\1/i.exec(contentType);
+    return match?.[2];
+  }
+
+  /**
+   * Split a multipart body into parts with lower-cased headers
+   */
+  private static splitMultipart(
+    body: string,
+    boundary: string
+  ): Array<{ headers: Record<string, string>; body: string }> {
+    const delimiter = `--${boundary}`;
+    const end = body.indexOf(`${delimiter}--`);
+    const content = end >= 0 ? body.slice(0, end) : body;
+
+    return content
+      .split(delimiter)
+      .slice(1) // Preamble
+      .map(part => {
+        const { head, rest } = this.splitHead(part.replace(/^\r?\n/, ''));
+        return { headers: this.parseHeaders(head), body: rest };
+      });
+  }
+
+  /**
+   * Parse an embedded "HTTP/1.1 <status> <text>" response
+   */
+  private static parseHttpResponse(raw: string): ParsedHttpResponse {
+    const { head, rest } = this.splitHead(raw.replace(/^\r?\n/, ''));
+    const [statusLine, ...headerLines] = head.split(/\r?\n/);
+    const status = Number(/^HTTP\/\d\.\d\s+(\d{3})/.exec(statusLine)?.[1] || 0);
+    const headers = this.parseHeaders(headerLines.join('\n'));
+
+    const text = rest.trim();
+    let body: unknown = undefined;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    }
+    return { status, headers, body };
+  }
+
+  private static splitHead(text: string): { head: string; rest: string } {
+    const match = /\r?\n\r?\n/.exec(text);
+    if (!match) {
+      return { head: text, rest: '' };
+    }
+    return { head: text.slice(0, match.index), rest: text.slice(match.index + match[0].length) };
+  }
+
+  private static parseHeaders(head: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of head.split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    }
+    return headers;
+  }
+
+  private static toResult(
+    operation: BatchOperation,
+    response: ParsedHttpResponse,
+    error?: string
+  ): BatchOperationResult {
+    const success = response.status >= 200 && response.status < 300;
+    const failure = success ? undefined : this.extractErrorMessage(response.body);
+    const messages = success ? undefined : SAPMessageUtils.parseErrorBody(response.body)?.messages;
+    return {
+      id: operation.id,
+      changeset: operation.changeset,
+      status: response.status,
+      success,
+      headers: response.headers,
+      body: response.body,
+      error: error && failure && error !== failure ? `${error}: ${failure}` : error || failure,
+      messages,
+    };
+  }
+
+  /**
+   * Error message from a V2 ({ error: { message: { value } } }) or V4 ({ error: { message } }) body
+   */
+  private static extractErrorMessage(body: unknown): string {
+    const message = SAPMessageUtils.parseErrorBody(body)?.message;
+    if (message) {
+      return message;
+    }
+    return typeof body === 'string' && body ? body.slice(0, 500) : 'Request failed';
+  }
+}
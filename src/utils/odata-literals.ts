@@ -0,0 +1,157 @@
+/**
+ * OData URL literal formatting driven by the Edm type of a property
+ * V2 uses prefixed/suffixed literals (guid'...', datetime'...', 1.5M), V4 mostly plain values
+ */
+export type ODataVersion = 'v2' | 'v4';
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const DECIMAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+export class ODataLiteralUtils {
+  /**
+   * Build a percent-encoded key predicate (without parentheses) for an entity
+   * Single keys use the short form "'1000'", composite keys "A='1',B=2"
+   */
+  static buildKeyPredicate(
+    keyProperties: Array<{ name: string; type: string }>,
+    values: Record<string, unknown>,
+    version: ODataVersion
+  ): string {
+    const missing = keyProperties.filter(
+      prop => values[prop.name] === undefined || values[prop.name] === null
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Missing required key property: ${missing.map(p => p.name).join(', ')}. Required keys: ${keyProperties.map(p => p.name).join(', ')}`
+      );
+    }
+
+    if (keyProperties.length === 1) {
+      const [prop] = keyProperties;
+      return this.encode(this.formatLiteral(values[prop.name], prop.type, version, prop.name));
+    }
+
+    return keyProperties
+      .map(
+        prop =>
+          `${prop.name}=${this.encode(this.formatLiteral(values[prop.name], prop.type, version, prop.name))}`
+      )
+      .join(',');
+  }
+
+  /**
+   * Format a value as an OData literal (not percent-encoded)
+   */
+  static formatLiteral(
+    value: unknown,
+    edmType: string,
+    version: ODataVersion,
+    propertyName = 'value'
+  ): string {
+    if (value === null || value === undefined) {
+      return 'null';
+    }
+
+    const raw = value instanceof Date ? value.toISOString() : String(value);
+    const invalid = () =>
+      new Error(`Invalid ${edmType} value for ${propertyName}: ${JSON.stringify(value)}`);
+
+    switch (edmType) {
+      case 'Edm.String':
+        return this.quote(raw);
+
+      case 'Edm.Guid':
+        if (!GUID_PATTERN.test(raw)) throw invalid();
+        return version === 'v2' ? `guid${this.quote(raw)}` : raw;
+
+      case 'Edm.Boolean':
+        if (raw !== 'true' && raw !== 'false') throw invalid();
+        return raw;
+
+      case 'Edm.Byte':
+      case 'Edm.SByte':
+      case 'Edm.Int16':
+      case 'Edm.Int32':
+        if (!INTEGER_PATTERN.test(raw)) throw invalid();
+        return raw;
+
+      case 'Edm.Int64':
+        if (!INTEGER_PATTERN.test(raw)) throw invalid();
+        return version === 'v2' ? `${raw}L` : raw;
+
+      case 'Edm.Decimal':
+        if (!DECIMAL_PATTERN.test(raw)) throw invalid();
+        return version === 'v2' ? `${raw}M` : raw;
+
+      case 'Edm.Double':
+        if (!DECIMAL_PATTERN.test(raw)) throw invalid();
+        return version === 'v2' ? `${raw}d` : raw;
+
+      case 'Edm.Single':
+        if (!DECIMAL_PATTERN.test(raw)) throw invalid();
+        return version === 'v2' ? `${raw}f` : raw;
+
+      case 'Edm.DateTime': {
+        // V2 only: local date time without offset
+        const dateTime = this.toDateTimeString(raw);
+        if (!dateTime) throw invalid();
+        return `datetime${this.quote(dateTime.replace(/(Z|[+-]\d{2}:\d{2})$/, ''))}`;
+      }
+
+      case 'Edm.DateTimeOffset': {
+        const dateTime = this.toDateTimeString(raw);
+        if (!dateTime) throw invalid();
+        return version === 'v2' ? `datetimeoffset${this.quote(dateTime)}` : dateTime;
+      }
+
+      case 'Edm.Time':
+        return `time${this.quote(raw)}`;
+
+      case 'Edm.Date':
+      case 'Edm.TimeOfDay':
+        return raw;
+
+      case 'Edm.Duration':
+        return `duration${this.quote(raw)}`;
+
+      case 'Edm.Binary':
+        return `binary${this.quote(raw)}`;
+
+      default:
+        // V4 enum members are written as Namespace.EnumType'Member'
+        if (version === 'v4' && !edmType.startsWith('Edm.')) {
+          return `${edmType}${this.quote(raw)}`;
+        }
+        return this.quote(raw);
+    }
+  }
+
+  /**
+   * Percent-encode a literal for use in a URL path segment
+   */
+  static encode(literal: string): string {
+    return encodeURIComponent(literal);
+  }
+
+  /**
+   * Wrap in single quotes, doubling embedded quotes
+   */
+  private static quote(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Normalize ISO strings and V2 JSON dates (/Date(1700000000000)/) to ISO 8601
+   */
+  private static toDateTimeString(value: string): string | undefined {
+    const jsonDate = /^\/Date\((-?\d+)([+-]\d{4})?\)\/$/.exec(value);
+    if (jsonDate) {
+      return new Date(Number(jsonDate[1])).toISOString();
+    }
+    if (/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}:\d{2})?$/.test(value)) {
+      return value.includes('T') ? value : `${value}T00:00:00`;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Server-driven paging helpers for OData collections
+ * V2 returns the next page link in d.__next, V4 in @odata.nextLink
+ */
+
+// Position of the next record to return: a page URL relative to the service root,
+// plus the number of records of that page that were already returned
+export interface PagePosition {
+  path: string;
+  offset: number;
+}
+
+interface CursorPayload extends PagePosition {
+  serviceId: string;
+}
+
+type CollectionPayload = {
+  d?: { results?: unknown[]; __next?: string; __count?: string } & Record<string, unknown>;
+  value?: unknown[];
+  '@odata.nextLink'?: string;
+  '@odata.count'?: number;
+} & Record<string, unknown>;
+
+export class ODataPagingUtils {
+  /**
+   * Records of a collection response, undefined if the payload is not a collection
+   */
+  static extractItems(data: unknown): unknown[] | undefined {
+    const payload = data as CollectionPayload | undefined;
+    if (Array.isArray(payload?.d?.results)) {
+      return payload.d.results;
+    }
+    if (Array.isArray(payload?.value)) {
+      return payload.value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Total count requested with $inlinecount=allpages (V2, string) or $count=true (V4)
+   */
+  static extractCount(data: unknown): number | undefined {
+    const payload = data as CollectionPayload | undefined;
+    const count = payload?.d?.__count ?? payload?.['@odata.count'];
+    return count === undefined || count === null ? undefined : Number(count);
+  }
+
+  static extractNextLink(data: unknown): string | undefined {
+    const payload = data as CollectionPayload | undefined;
+    return payload?.d?.__next || payload?.['@odata.nextLink'] || undefined;
+  }
+
+  /**
+   * Copy of a collection response with its records replaced and the next link removed
+   */
+  static withItems(data: unknown, items: unknown[]): unknown {
+    const payload = data as CollectionPayload;
+    if (payload?.d) {
+      const d = { ...payload.d, results: items };
+      delete d.__next;
+      return { ...payload, d };
+    }
+    const result = { ...payload, value: items };
+    delete result['@odata.nextLink'];
+    return result;
+  }
+
+  /**
+   * Convert an absolute or relative next link into a path relative to the service root
+   */
+  static toServiceRelativePath(link: string, servicePath: string): string {
+    let path = link;
+    if (/^https?:\/\//i.test(path)) {
+      const url = new URL(path);
+      path = `${url.pathname}${url.search}`;
+    }
+    if (path.startsWith(servicePath)) {
+      return path.slice(servicePath.length);
+    }
+    if (path.startsWith('/')) {
+      throw new Error(`Next link '${link}' is outside of service '${servicePath}'`);
+    }
+    return path;
+  }
+
+  /**
+   * Opaque continuation token handed to MCP clients
+   */
+  static encodeCursor(serviceId: string, position: PagePosition): string {
+    const payload: CursorPayload = { serviceId, ...position };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  static decodeCursor(cursor: string, serviceId: string): PagePosition {
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor: pass the cursor value from a previous read unchanged');
+    }
+
+    if (
+      typeof payload?.path !== 'string' ||
+      typeof payload.offset !== 'number' ||
+      payload.path.startsWith('/') ||
+      payload.path.split(/[/?]/).includes('..')
+    ) {
+      throw new Error('Invalid cursor: pass the cursor value from a previous read unchanged');
+    }
+    if (payload.serviceId !== serviceId) {
+      throw new Error(`Cursor belongs to service '${payload.serviceId}', not '${serviceId}'`);
+    }
+
+    return { path: payload.path, offset: payload.offset };
+  }
+}
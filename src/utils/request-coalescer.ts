@@ -0,0 +1,116 @@
+export interface RequestCoalescerStats {
+  inFlight: number;
+  upstreamCalls: number;
+  coalescedCalls: number; // Calls answered by another caller's upstream call
+}
+
+interface InFlightCall {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+/**
+ * Single-flight coalescing of identical concurrent requests, shared by all SAPClient instances
+ * The first caller starts the upstream call, callers arriving while it runs wait for the same result.
+ * The upstream call is only aborted when every waiting caller has cancelled.
+ */
+export class RequestCoalescer {
+  private static instance: RequestCoalescer;
+  private inFlight = new Map<string, InFlightCall>();
+  private upstreamCalls = 0;
+  private coalescedCalls = 0;
+
+  private constructor() {}
+
+  public static getInstance(): RequestCoalescer {
+    if (!RequestCoalescer.instance) {
+      RequestCoalescer.instance = new RequestCoalescer();
+    }
+    return RequestCoalescer.instance;
+  }
+
+  /**
+   * Join the in-flight call for the key or start it with call(sharedSignal)
+   */
+  async run<T>(
+    key: string,
+    call: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ result: T; coalesced: boolean }> {
+    signal?.throwIfAborted();
+
+    const existing = this.inFlight.get(key);
+    const coalesced = !!existing;
+    const shared = existing || this.start(key, call);
+    if (coalesced) {
+      this.coalescedCalls++;
+    }
+    shared.waiting++;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        shared.waiting--;
+        if (shared.waiting === 0) {
+          shared.controller.abort(signal?.reason);
+          // Later callers must not join a call that is being aborted
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+        }
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      shared.promise.then(
+        result => {
+          if (settled) {
+            return;
+          }
+          settled = true;
+          shared.waiting--;
+          signal?.removeEventListener('abort', onAbort);
+          resolve({ result: result as T, coalesced });
+        },
+        error => {
+          if (settled) {
+            return;
+          }
+          settled = true;
+          shared.waiting--;
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private start<T>(key: string, call: (signal: AbortSignal) => Promise<T>): InFlightCall {
+    const controller = new AbortController();
+    const entry: InFlightCall = {
+      controller,
+      waiting: 0,
+      promise: call(controller.signal).finally(() => {
+        if (this.inFlight.get(key) === entry) {
+          this.inFlight.delete(key);
+        }
+      }),
+    };
+    this.inFlight.set(key, entry);
+    this.upstreamCalls++;
+    return entry;
+  }
+
+  getStats(): RequestCoalescerStats {
+    return {
+      inFlight: this.inFlight.size,
+      upstreamCalls: this.upstreamCalls,
+      coalescedCalls: this.coalescedCalls,
+    };
+  }
+}
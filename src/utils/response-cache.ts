@@ -0,0 +1,238 @@
+import { Logger } from './logger.js';
+import { Config } from './config.js';
+
+const logger = new Logger('ResponseCache');
+
+/**
+ * Cache options of a single read request
+ */
+export interface ResponseCacheOptions {
+  ttl: number; // Milliseconds, resolved per service with ResponseCache.getTtl
+  refresh?: boolean; // Skip the lookup but store the fresh response
+}
+
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  data: unknown;
+}
+
+export interface ResponseCacheStats {
+  enabled: boolean;
+  entries: number;
+  sizeBytes: number;
+  maxEntries: number;
+  maxSizeBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+}
+
+interface CacheEntry {
+  response: CachedResponse;
+  servicePath: string;
+  entitySet?: string; // Undefined when the response also holds data of other entity sets
+  storedAt: number;
+  expiresAt: number;
+  size: number;
+}
+
+interface CacheScope {
+  servicePath: string;
+  entitySet?: string; // Undefined when the response also holds data of other entity sets
+}
+
+/**
+ * Opt-in read-through cache for SAP read responses, shared by all SAPClient instances
+ * Keys are built by the caller from destination, user, Accept-Language and URL, so a response
+ * is only ever served to the user it was read for. Writes invalidate by service and entity set.
+ * Least recently used entries are evicted when the entry or size limit is reached.
+ * Reads still in flight when a write invalidates their scope are not stored (see getGeneration).
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private entries = new Map<string, CacheEntry>(); // Insertion order = least recently used first
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+  private generation = 0; // Counts invalidate() calls
+  private invalidatedAt = new Map<string, number>(); // Scope key -> generation of its last invalidation
+
+  private constructor(private config: Config) {}
+
+  public static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache(new Config());
+    }
+    return ResponseCache.instance;
+  }
+
+  get enabled(): boolean {
+    return this.config.get<boolean>('responseCache.enabled', false);
+  }
+
+  /**
+   * TTL for reads of a service, 0 when the cache is disabled for it
+   */
+  getTtl(serviceId: string): number {
+    if (!this.enabled) {
+      return 0;
+    }
+    const serviceTtls = this.config.get<Record<string, number>>('responseCache.serviceTtls', {});
+    return serviceTtls[serviceId] ?? this.config.get<number>('responseCache.ttl', 60000);
+  }
+
+  /**
+   * Cached response with its age, undefined on a miss or when the entry expired
+   */
+  get(key: string): { response: CachedResponse; storedAt: number } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.remove(key, entry);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the end: most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return { response: entry.response, storedAt: entry.storedAt };
+  }
+
+  /**
+   * Generation of the last invalidation affecting a scope; take it before sending a read and
+   * pass it to set(), so a response read before a concurrent write is not stored afterwards
+   */
+  getGeneration(scope: CacheScope): number {
+    if (!scope.entitySet) {
+      return this.invalidatedAt.get(this.getScopeKey(scope.servicePath, '*')) ?? 0;
+    }
+    return Math.max(
+      this.invalidatedAt.get(this.getScopeKey(scope.servicePath, scope.entitySet)) ?? 0,
+      this.invalidatedAt.get(this.getScopeKey(scope.servicePath)) ?? 0
+    );
+  }
+
+  set(
+    key: string,
+    response: CachedResponse,
+    ttl: number,
+    scope: CacheScope,
+    generation?: number
+  ): void {
+    if (generation !== undefined && this.getGeneration(scope) !== generation) {
+      logger.debug(`Response not cached, invalidated while it was read: ${key}`);
+      return;
+    }
+
+    const size = this.estimateSize(response.data);
+    const maxSizeBytes = this.getMaxSizeBytes();
+    if (size > maxSizeBytes / 10) {
+      // A single response must not push out most of the cache
+      logger.debug(`Response of ${size} bytes not cached: ${key}`);
+      return;
+    }
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.remove(key, existing);
+    }
+
+    const now = Date.now();
+    this.entries.set(key, {
+      response,
+      servicePath: scope.servicePath,
+      entitySet: scope.entitySet,
+      storedAt: now,
+      expiresAt: now + ttl,
+      size,
+    });
+    this.sizeBytes += size;
+
+    const maxEntries = this.config.get<number>('responseCache.maxEntries', 500);
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= maxEntries && this.sizeBytes <= maxSizeBytes) {
+        break;
+      }
+      this.remove(oldestKey, oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Drop cached reads of an entity set, or of the whole service when no entity set is given
+   * Entries that mix in other entity sets ($expand, navigation) are always dropped
+   */
+  invalidate(servicePath: string, entitySet?: string): void {
+    this.generation++;
+    this.invalidatedAt.set(this.getScopeKey(servicePath, entitySet), this.generation);
+    // Reads mixing entity sets are affected by every invalidation of the service
+    this.invalidatedAt.set(this.getScopeKey(servicePath, '*'), this.generation);
+
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (
+        entry.servicePath === servicePath &&
+        (!entitySet || !entry.entitySet || entry.entitySet === entitySet)
+      ) {
+        this.remove(key, entry);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.invalidations += removed;
+      logger.debug(
+        `Invalidated ${removed} cached responses of ${servicePath}${entitySet ?? ' (all entity sets)'}`
+      );
+    }
+  }
+
+  /**
+   * Remove all entries, returns the number of removed entries
+   */
+  flush(): number {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.sizeBytes = 0;
+    logger.info(`Response cache flushed (${count} entries)`);
+    return count;
+  }
+
+  getStats(): ResponseCacheStats {
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxEntries: this.config.get<number>('responseCache.maxEntries', 500),
+      maxSizeBytes: this.getMaxSizeBytes(),
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+    };
+  }
+
+  private getMaxSizeBytes(): number {
+    return this.config.get<number>('responseCache.maxSizeMb', 50) * 1024 * 1024;
+  }
+
+  private getScopeKey(servicePath: string, entitySet = ''): string {
+    return `${servicePath}|${entitySet}`;
+  }
+
+  private remove(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.sizeBytes -= entry.size;
+  }
+
+  private estimateSize(data: unknown): number {
+    const text = typeof data === 'string' ? data : JSON.stringify(data ?? null);
+    return Buffer.byteLength(text);
+  }
+}
@@ -0,0 +1,70 @@
+import { SAPMessage } from '../types/sap-types.js';
+
+/**
+ * Typed errors raised by SAPClient for SAP Gateway conditions that callers handle explicitly
+ */
+
+/**
+ * Optimistic concurrency conflict: the If-Match ETag no longer matches the server version (HTTP 412)
+ */
+export class SAPConcurrencyError extends Error {
+  readonly statusCode = 412;
+  sentEtag?: string; // ETag the client sent in If-Match
+  currentEtag?: string; // ETag of the version currently stored on the server
+  currentVersion?: unknown; // Entity as currently stored on the server
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SAPConcurrencyError';
+  }
+}
+
+/**
+ * The circuit breaker of a destination is open: the backend failed repeatedly and is not called until retryAfterSeconds
+ */
+export class SAPBackendUnavailableError extends Error {
+  readonly statusCode = 503;
+
+  constructor(
+    readonly destination: string,
+    readonly retryAfterSeconds: number,
+    readonly lastError?: string
+  ) {
+    super(
+      `SAP backend behind destination '${destination}' is unavailable, retry after ${retryAfterSeconds}s${lastError ? ` (last error: ${lastError})` : ''}`
+    );
+    this.name = 'SAPBackendUnavailableError';
+  }
+}
+
+/**
+ * The MCP client cancelled the tool call while the SAP request was in flight
+ */
+export class SAPRequestCancelledError extends Error {
+  constructor(request: string) {
+    super(`Request cancelled by the client: ${request}`);
+    this.name = 'SAPRequestCancelledError';
+  }
+}
+
+/**
+ * Error response of SAP Gateway with its structured messages (message class/number, target field, severity)
+ */
+export class SAPBusinessError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly code: string | undefined,
+    readonly messages: SAPMessage[]
+  ) {
+    super(message);
+    this.name = 'SAPBusinessError';
+  }
+
+  /**
+   * Messages that refer to a property, for correcting the payload
+   */
+  get fieldErrors(): SAPMessage[] {
+    return this.messages.filter(message => message.target && message.severity === 'error');
+  }
+}
@@ -0,0 +1,131 @@
+import { SAPMessage } from '../types/sap-types.js';
+
+type RawMessage = Record<string, unknown>;
+
+/**
+ * Parsing of SAP Gateway messages
+ * V2 sends details in error.innererror.errordetails and warnings in the sap-message header (object),
+ * V4 in error.details and the sap-messages header (array, numeric severity)
+ */
+export class SAPMessageUtils {
+  /**
+   * Code, text and messages of an OData error body, undefined if the body is not an OData error
+   */
+  static parseErrorBody(
+    body: unknown
+  ): { code?: string; message: string; messages: SAPMessage[] } | undefined {
+    // Binary requests (media downloads) receive the error body as Buffer
+    const payload =
+      typeof body === 'string' || Buffer.isBuffer(body) ? this.parseJson(body.toString()) : body;
+    const error = (payload as { error?: unknown } | undefined)?.error;
+    if (!error || typeof error !== 'object') {
+      return undefined;
+    }
+
+    const raw = error as RawMessage;
+    const main = this.toMessage(raw, 'error');
+    const innerError = raw.innererror as { errordetails?: unknown } | undefined;
+    const details = [
+      ...(Array.isArray(innerError?.errordetails) ? innerError.errordetails : []),
+      ...(Array.isArray(raw.details) ? raw.details : []),
+    ]
+      .filter(detail => detail && typeof detail === 'object')
+      .map(detail => this.toMessage(detail as RawMessage, 'error'));
+
+    // errordetails usually repeats the main message
+    const repeated = details.some(
+      detail => detail.code === main.code && detail.message === main.message
+    );
+    return {
+      code: main.code,
+      message: main.message,
+      messages: repeated ? details : [main, ...details],
+    };
+  }
+
+  /**
+   * Messages of the sap-message (V2) or sap-messages (V4) response header
+   */
+  static parseMessageHeader(headers?: Record<string, unknown>): SAPMessage[] {
+    const name = Object.keys(headers || {}).find(key =>
+      ['sap-message', 'sap-messages'].includes(key.toLowerCase())
+    );
+    const value = name ? headers![name] : undefined;
+    if (typeof value !== 'string' || !value) {
+      return [];
+    }
+
+    const parsed = this.parseJson(value);
+    if (Array.isArray(parsed)) {
+      return parsed
+        .filter(entry => entry && typeof entry === 'object')
+        .map(entry => this.toMessage(entry as RawMessage, 'info'));
+    }
+    if (parsed && typeof parsed === 'object') {
+      const raw = parsed as RawMessage;
+      const details = Array.isArray(raw.details) ? raw.details : [];
+      return [raw, ...details]
+        .filter(entry => entry && typeof entry === 'object')
+        .map(entry => this.toMessage(entry as RawMessage, 'info'));
+    }
+    return [];
+  }
+
+  private static toMessage(raw: RawMessage, defaultSeverity: SAPMessage['severity']): SAPMessage {
+    // V2 error bodies wrap the text as { lang, value }
+    const text =
+      raw.message && typeof raw.message === 'object'
+        ? (raw.message as { value?: unknown }).value
+        : raw.message;
+    const target = [raw.target, raw.propertyref].find(
+      value => typeof value === 'string' && value.length > 0
+    ) as string | undefined;
+    const longtextUrl = raw.longtext_url ?? raw['@Common.longtextUrl'] ?? raw.longtextUrl;
+
+    return {
+      code: raw.code ? String(raw.code) : undefined,
+      message: String(text ?? ''),
+      target,
+      severity: this.toSeverity(
+        raw.severity ?? raw.numericSeverity ?? raw['@Common.numericSeverity'],
+        defaultSeverity
+      ),
+      longtextUrl: longtextUrl ? String(longtextUrl) : undefined,
+    };
+  }
+
+  /**
+   * V2 severity strings, V4 numeric severity (1 success, 2 info, 3 warning, 4 error)
+   */
+  private static toSeverity(
+    value: unknown,
+    fallback: SAPMessage['severity']
+  ): SAPMessage['severity'] {
+    switch (String(value ?? '').toLowerCase()) {
+      case '1':
+      case 'success':
+        return 'success';
+      case '2':
+      case 'info':
+      case 'information':
+        return 'info';
+      case '3':
+      case 'warning':
+        return 'warning';
+      case '4':
+      case 'error':
+      case 'abort':
+        return 'error';
+      default:
+        return fallback;
+    }
+  }
+
+  private static parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
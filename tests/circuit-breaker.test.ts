@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the per-destination circuit breaker
+ */
+
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import { CircuitBreakerRegistry } from '../src/utils/circuit-breaker.js';
+import { SAPBackendUnavailableError } from '../src/utils/sap-errors.js';
+import { createConfig, createInstance } from './helpers.js';
+
+function createRegistry(failureThreshold = 3, resetTimeout = 30000): CircuitBreakerRegistry {
+  return createInstance(
+    CircuitBreakerRegistry,
+    createConfig({
+      'circuitBreaker.failureThreshold': failureThreshold,
+      'circuitBreaker.resetTimeout': resetTimeout,
+    })
+  );
+}
+
+function openCircuit(registry: CircuitBreakerRegistry, failures = 3): void {
+  for (let i = 0; i < failures; i++) {
+    registry.acquire('S4H');
+    registry.recordFailure('S4H', 'ECONNREFUSED');
+  }
+}
+
+describe('CircuitBreakerRegistry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('stays closed below the failure threshold and resets on success', () => {
+    const registry = createRegistry();
+
+    registry.recordFailure('S4H', 'timeout');
+    registry.recordFailure('S4H', 'timeout');
+    expect(() => registry.acquire('S4H')).not.toThrow();
+    expect(registry.getStatus()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+
+    registry.recordSuccess('S4H');
+    expect(registry.getStatus()).toEqual([]);
+  });
+
+  test('opens after consecutive failures and fails fast with a retry hint', () => {
+    const registry = createRegistry();
+    openCircuit(registry);
+
+    expect(registry.getStatus()[0]).toMatchObject({
+      destination: 'S4H',
+      state: 'open',
+      consecutiveFailures: 3,
+      lastError: 'ECONNREFUSED',
+    });
+    let error: unknown;
+    try {
+      registry.acquire('S4H');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SAPBackendUnavailableError);
+    expect((error as SAPBackendUnavailableError).retryAfterSeconds).toBe(30);
+  });
+
+  test('lets a single trial request through when half-open', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const registry = createRegistry();
+    openCircuit(registry);
+
+    clock.mockReturnValue(now + 30000);
+    expect(() => registry.acquire('S4H')).not.toThrow();
+    expect(registry.getStatus()[0].state).toBe('half-open');
+    expect(() => registry.acquire('S4H')).toThrow(SAPBackendUnavailableError);
+
+    // A cancelled trial frees the slot for the next request
+    registry.release('S4H');
+    expect(() => registry.acquire('S4H')).not.toThrow();
+  });
+
+  test('closes after a successful trial and reopens after a failed one', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const registry = createRegistry();
+
+    openCircuit(registry);
+    clock.mockReturnValue(now + 30000);
+    registry.acquire('S4H');
+    registry.recordFailure('S4H', 'still down');
+    expect(registry.getStatus()[0]).toMatchObject({ state: 'open', lastError: 'still down' });
+
+    clock.mockReturnValue(now + 60000);
+    registry.acquire('S4H');
+    registry.recordSuccess('S4H');
+    expect(registry.getStatus()).toEqual([]);
+    expect(() => registry.acquire('S4H')).not.toThrow();
+  });
+
+  test('keeps destinations apart', () => {
+    const registry = createRegistry();
+    openCircuit(registry);
+
+    expect(() => registry.acquire('S4H')).toThrow(SAPBackendUnavailableError);
+    expect(() => registry.acquire('ECC')).not.toThrow();
+  });
+
+  test('is disabled with a failure threshold of 0', () => {
+    const registry = createRegistry(0);
+    openCircuit(registry, 10);
+
+    expect(registry.enabled).toBe(false);
+    expect(() => registry.acquire('S4H')).not.toThrow();
+  });
+});
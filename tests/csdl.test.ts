@@ -0,0 +1,185 @@
+/**
+ * Unit tests for CSDL lookups and payload validation
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { CsdlUtils } from '../src/utils/csdl.js';
+import { ServiceMetadata, EntityType, Property } from '../src/types/sap-types.js';
+
+const NAMESPACE = 'com.sap.gateway.srvd.zui_order.v0001';
+
+function property(name: string, type: string): Property {
+  return { name, type, nullable: true };
+}
+
+const metadata: ServiceMetadata = {
+  entityTypes: [],
+  entitySets: [],
+  complexTypes: [
+    {
+      name: 'Address',
+      namespace: NAMESPACE,
+      properties: [property('City', 'Edm.String'), property('Usage', `${NAMESPACE}.AddressUsage`)],
+      navigationProperties: [],
+    },
+  ],
+  enumTypes: [
+    {
+      name: 'AddressUsage',
+      namespace: NAMESPACE,
+      underlyingType: 'Edm.Int32',
+      isFlags: true,
+      members: [
+        { name: 'Billing', value: 1 },
+        { name: 'Shipping', value: 2 },
+      ],
+    },
+    {
+      name: 'Status',
+      namespace: NAMESPACE,
+      underlyingType: 'Edm.Byte',
+      isFlags: false,
+      members: [
+        { name: 'Open', value: 0 },
+        { name: 'Closed', value: 1 },
+      ],
+    },
+  ],
+  associations: [],
+  associationSets: [],
+  operations: [],
+  version: 'v4',
+  namespace: NAMESPACE,
+};
+
+const order: EntityType = {
+  name: 'SalesOrderType',
+  entitySet: 'SalesOrder',
+  namespace: NAMESPACE,
+  properties: [
+    property('SalesOrder', 'Edm.String'),
+    property('Status', `${NAMESPACE}.Status`),
+    property('ShipTo', `${NAMESPACE}.Address`),
+    property('Addresses', `Collection(${NAMESPACE}.Address)`),
+  ],
+  navigationProperties: [
+    {
+      name: '_Item',
+      type: `${NAMESPACE}.SalesOrderItemType`,
+      multiplicity: '*',
+      referentialConstraints: [],
+    },
+  ],
+  keys: ['SalesOrder'],
+  creatable: true,
+  updatable: true,
+  deletable: true,
+  addressable: true,
+  hasStream: false,
+};
+
+describe('CsdlUtils type lookups', () => {
+  test('parses collection type references', () => {
+    expect(CsdlUtils.parseTypeReference(`Collection(${NAMESPACE}.Address)`)).toEqual({
+      type: `${NAMESPACE}.Address`,
+      isCollection: true,
+    });
+    expect(CsdlUtils.parseTypeReference('Edm.String')).toEqual({
+      type: 'Edm.String',
+      isCollection: false,
+    });
+  });
+
+  test('finds complex and enum types by qualified name', () => {
+    expect(CsdlUtils.findComplexType(metadata, `Collection(${NAMESPACE}.Address)`)?.name).toBe(
+      'Address'
+    );
+    expect(CsdlUtils.findEnumType(metadata, `${NAMESPACE}.Status`)?.name).toBe('Status');
+    expect(CsdlUtils.findComplexType(metadata, 'Address')).toBeUndefined();
+    expect(CsdlUtils.findEnumType(null, `${NAMESPACE}.Status`)).toBeUndefined();
+  });
+});
+
+describe('CsdlUtils.validateStructure', () => {
+  test('accepts a valid payload with nested values, navigation and annotations', () => {
+    expect(() =>
+      CsdlUtils.validateStructure(
+        metadata,
+        order,
+        {
+          SalesOrder: '1000',
+          Status: 'Open',
+          ShipTo: { City: 'Walldorf', Usage: 'Billing,Shipping' },
+          Addresses: [{ City: 'Berlin', Usage: 2 }],
+          _Item: [{ Material: 'TG11' }],
+          '@odata.etag': 'W/"1"',
+          __metadata: { type: 'SalesOrderType' },
+        },
+        'SalesOrder'
+      )
+    ).not.toThrow();
+  });
+
+  test('accepts V2 collections wrapped in results', () => {
+    expect(() =>
+      CsdlUtils.validateStructure(
+        metadata,
+        order,
+        { Addresses: { results: [{ City: 'Berlin' }] } },
+        'SalesOrder'
+      )
+    ).not.toThrow();
+  });
+
+  test.each([
+    [{ Unknown: 1 }, "Unknown property 'Unknown' on SalesOrderType at 'SalesOrder'"],
+    [
+      { ShipTo: { Street: 'Main Street' } },
+      "Unknown property 'Street' on Address at 'SalesOrder/ShipTo'",
+    ],
+    [{ ShipTo: 'Walldorf' }, "'SalesOrder/ShipTo' must be a Address object"],
+    [
+      { Addresses: { City: 'Berlin' } },
+      "'SalesOrder/Addresses' must be an array of Address values",
+    ],
+    [
+      { Addresses: [{ City: 'Berlin' }, { Usage: 'Private' }] },
+      "'SalesOrder/Addresses[1]/Usage' must be one of Billing, Shipping (comma-separated)",
+    ],
+    [{ Status: 'Open,Closed' }, "'SalesOrder/Status' must be one of Open, Closed"],
+    [{ Status: 7 }, "'SalesOrder/Status' must be one of Open, Closed"],
+  ])('rejects %p', (payload, message) => {
+    expect(() => CsdlUtils.validateStructure(metadata, order, payload, 'SalesOrder')).toThrow(
+      message
+    );
+  });
+});
+
+describe('CsdlUtils.validatePropertyPath', () => {
+  test.each(['SalesOrder', 'ShipTo/City', '_Item', '_Item/Material', '*', `${NAMESPACE}.Release`])(
+    'accepts %p',
+    path => {
+      expect(() => CsdlUtils.validatePropertyPath(metadata, order, path, '$select')).not.toThrow();
+    }
+  );
+
+  test.each([
+    ['Customer', "Unknown property 'Customer' on SalesOrderType in $select 'Customer'"],
+    ['ShipTo/Street', "Unknown property 'Street' on Address in $select 'ShipTo/Street'"],
+    [
+      'SalesOrder/Text',
+      "'SalesOrder' on SalesOrderType is neither a navigation nor a complex property, $select 'SalesOrder/Text' cannot continue after it",
+    ],
+  ])('rejects %p', (path, message) => {
+    expect(() => CsdlUtils.validatePropertyPath(metadata, order, path, '$select')).toThrow(message);
+  });
+
+  test('only follows navigation properties for $expand', () => {
+    expect(() =>
+      CsdlUtils.validatePropertyPath(metadata, order, '_Item', '$expand', true)
+    ).not.toThrow();
+    expect(() =>
+      CsdlUtils.validatePropertyPath(metadata, order, 'ShipTo', '$expand', true)
+    ).toThrow("Unknown navigation property 'ShipTo' on SalesOrderType in $expand 'ShipTo'");
+  });
+});
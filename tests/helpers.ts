@@ -0,0 +1,230 @@
+/**
+ * Shared fixtures for unit tests
+ */
+
+import { jest } from '@jest/globals';
+import { executeHttpRequest, HttpRequestConfig, HttpResponse } from '@sap-cloud-sdk/http-client';
+import { SAPClient } from '../src/services/sap-client.js';
+import { SAPDiscoveryService } from '../src/services/sap-discovery.js';
+import { DestinationService } from '../src/services/destination-service.js';
+import { Logger } from '../src/utils/logger.js';
+import { Config } from '../src/utils/config.js';
+import { CircuitBreakerRegistry } from '../src/utils/circuit-breaker.js';
+import { ResponseCache } from '../src/utils/response-cache.js';
+import { RequestCoalescer } from '../src/utils/request-coalescer.js';
+import { ODataService, ServiceMetadata } from '../src/types/sap-types.js';
+
+/**
+ * Config answering the given settings, the default passed to get() otherwise
+ */
+export function createConfig(settings: Record<string, unknown> = {}): Config {
+  return {
+    get: (key: string, defaultValue?: unknown) => settings[key] ?? defaultValue,
+  } as unknown as Config;
+}
+
+/**
+ * Fresh instance of a singleton, so tests do not share state through getInstance()
+ */
+export function createInstance<T, A extends unknown[]>(
+  singleton: { getInstance(): T },
+  ...args: A
+): T {
+  const Singleton = singleton as unknown as new (...args: A) => T;
+  return new Singleton(...args);
+}
+
+export const TEST_DESTINATION = { name: 'S4H', url: 'https://s4h.example.com' };
+
+/**
+ * SAPClient on TEST_DESTINATION with the given settings and its own circuit breaker,
+ * response cache and coalescer
+ */
+export function createSAPClient(settings: Record<string, unknown> = {}): SAPClient {
+  const config = createConfig(settings);
+  const destinationService = {
+    getDestinationWithJWT: async () => TEST_DESTINATION,
+  } as unknown as DestinationService;
+  const client = new SAPClient(destinationService, new Logger('SAPClientTest'));
+  Object.assign(client as object, {
+    config,
+    circuitBreaker: createInstance(CircuitBreakerRegistry, config),
+    responseCache: createInstance(ResponseCache, config),
+    requestCoalescer: createInstance(RequestCoalescer),
+  });
+  return client;
+}
+
+/**
+ * Response as returned by executeHttpRequest
+ */
+export function httpResponse(
+  status: number,
+  data?: unknown,
+  headers: Record<string, unknown> = {}
+): HttpResponse {
+  return { status, data, headers } as HttpResponse;
+}
+
+/**
+ * Error as thrown by executeHttpRequest: the axios error with the response is the root cause
+ */
+export function httpError(
+  status: number,
+  data?: unknown,
+  headers: Record<string, unknown> = {}
+): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    rootCause: { response: { status, statusText: '', data, headers } },
+  });
+}
+
+/**
+ * Answer CSRF token fetches with a token and every other request with the next response
+ * (an Error is thrown); the requests sent are returned without the token fetches.
+ * The test has to mock '@sap-cloud-sdk/http-client'.
+ */
+export function mockRequests(...responses: unknown[]): HttpRequestConfig[] {
+  const sent: HttpRequestConfig[] = [];
+  (executeHttpRequest as jest.MockedFunction<typeof executeHttpRequest>).mockImplementation(
+    async (_destination, request) => {
+      const config = request as HttpRequestConfig;
+      if (config.headers?.['X-CSRF-Token'] === 'Fetch') {
+        return httpResponse(200, undefined, { 'x-csrf-token': 'token' });
+      }
+      sent.push(config);
+      const response = responses.length > 1 ? responses.shift() : responses[0];
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response as HttpResponse;
+    }
+  );
+  return sent;
+}
+
+/**
+ * Error of a request that got no response, e.g. ECONNRESET
+ */
+export function networkError(code: string): Error {
+  return Object.assign(new Error(code), { code });
+}
+
+/**
+ * $metadata document of a V4 service with the given schema content (alias SAP__self)
+ */
+export function v4Metadata(schema: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:Reference Uri="/vocabularies/Common.xml">
+    <edmx:Include Namespace="com.sap.vocabularies.Common.v1" Alias="SAP__common"/>
+  </edmx:Reference>
+  <edmx:Reference Uri="/vocabularies/Capabilities.xml">
+    <edmx:Include Namespace="Org.OData.Capabilities.V1" Alias="SAP__capabilities"/>
+  </edmx:Reference>
+  <edmx:DataServices>
+    <Schema Namespace="com.sap.gateway.srvd.zui_order.v0001" Alias="SAP__self" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      ${schema}
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+}
+
+/**
+ * $metadata document of a V2 service with the given schema content (namespace API_SALES_ORDER_SRV)
+ */
+export function v2Metadata(schema: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="1.0" xmlns:edmx="http://schemas.microsoft.com/ado/2007/06/edmx" xmlns:m="http://schemas.microsoft.com/ado/2007/08/dataservices/metadata" xmlns:sap="http://www.sap.com/Protocols/SAPData">
+  <edmx:DataServices m:DataServiceVersion="2.0">
+    <Schema Namespace="API_SALES_ORDER_SRV" xml:lang="en" sap:schema-version="1" xmlns="http://schemas.microsoft.com/ado/2008/09/edm">
+      ${schema}
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+}
+
+/**
+ * ServiceMetadata as SAPDiscoveryService parses it from a $metadata document
+ */
+export function parseMetadata(xml: string, odataVersion: 'v2' | 'v4'): ServiceMetadata {
+  const discovery = new SAPDiscoveryService(
+    {} as SAPClient,
+    new Logger('SAPDiscoveryTest'),
+    createConfig()
+  );
+  return (
+    discovery as unknown as { parseMetadata(xml: string, version: string): ServiceMetadata }
+  ).parseMetadata(xml, odataVersion);
+}
+
+/**
+ * V2 sales order service: orders with items (to_Item), items with schedule lines
+ * (to_ScheduleLine) and their order (to_SalesOrder)
+ */
+export const SALES_ORDER_SCHEMA = `
+  <EntityType Name="A_SalesOrderType">
+    <Key><PropertyRef Name="SalesOrder"/></Key>
+    <Property Name="SalesOrder" Type="Edm.String" Nullable="false" MaxLength="10"/>
+    <Property Name="SalesOrderType" Type="Edm.String" MaxLength="4"/>
+    <Property Name="CreationDate" Type="Edm.DateTime" Precision="0"/>
+    <Property Name="TotalNetAmount" Type="Edm.Decimal" Precision="16" Scale="3"/>
+    <NavigationProperty Name="to_Item" Relationship="API_SALES_ORDER_SRV.assoc_Order_Item" FromRole="FromRole_Order" ToRole="ToRole_Item"/>
+  </EntityType>
+  <EntityType Name="A_SalesOrderItemType">
+    <Key>
+      <PropertyRef Name="SalesOrder"/>
+      <PropertyRef Name="SalesOrderItem"/>
+    </Key>
+    <Property Name="SalesOrder" Type="Edm.String" Nullable="false" MaxLength="10"/>
+    <Property Name="SalesOrderItem" Type="Edm.String" Nullable="false" MaxLength="6"/>
+    <Property Name="Material" Type="Edm.String" MaxLength="40"/>
+    <Property Name="NetAmount" Type="Edm.Decimal" Precision="16" Scale="3"/>
+    <NavigationProperty Name="to_SalesOrder" Relationship="API_SALES_ORDER_SRV.assoc_Order_Item" FromRole="ToRole_Item" ToRole="FromRole_Order"/>
+    <NavigationProperty Name="to_ScheduleLine" Relationship="API_SALES_ORDER_SRV.assoc_Item_ScheduleLine" FromRole="FromRole_Item" ToRole="ToRole_ScheduleLine"/>
+  </EntityType>
+  <EntityType Name="A_SalesOrderScheduleLineType">
+    <Key>
+      <PropertyRef Name="SalesOrder"/>
+      <PropertyRef Name="SalesOrderItem"/>
+      <PropertyRef Name="ScheduleLine"/>
+    </Key>
+    <Property Name="SalesOrder" Type="Edm.String" Nullable="false" MaxLength="10"/>
+    <Property Name="SalesOrderItem" Type="Edm.String" Nullable="false" MaxLength="6"/>
+    <Property Name="ScheduleLine" Type="Edm.String" Nullable="false" MaxLength="4"/>
+    <Property Name="ConfdOrderQtyByMatlAvailCheck" Type="Edm.Decimal" Precision="15" Scale="3"/>
+  </EntityType>
+  <Association Name="assoc_Order_Item">
+    <End Type="API_SALES_ORDER_SRV.A_SalesOrderType" Multiplicity="1" Role="FromRole_Order"/>
+    <End Type="API_SALES_ORDER_SRV.A_SalesOrderItemType" Multiplicity="*" Role="ToRole_Item"/>
+  </Association>
+  <Association Name="assoc_Item_ScheduleLine">
+    <End Type="API_SALES_ORDER_SRV.A_SalesOrderItemType" Multiplicity="1" Role="FromRole_Item"/>
+    <End Type="API_SALES_ORDER_SRV.A_SalesOrderScheduleLineType" Multiplicity="*" Role="ToRole_ScheduleLine"/>
+  </Association>
+  <EntityContainer Name="API_SALES_ORDER_SRV_Entities" m:IsDefaultEntityContainer="true">
+    <EntitySet Name="A_SalesOrder" EntityType="API_SALES_ORDER_SRV.A_SalesOrderType" sap:creatable="true" sap:updatable="true" sap:deletable="true"/>
+    <EntitySet Name="A_SalesOrderItem" EntityType="API_SALES_ORDER_SRV.A_SalesOrderItemType" sap:creatable="true" sap:updatable="true" sap:deletable="true"/>
+    <EntitySet Name="A_SalesOrderScheduleLine" EntityType="API_SALES_ORDER_SRV.A_SalesOrderScheduleLineType" sap:creatable="true" sap:updatable="true" sap:deletable="true"/>
+  </EntityContainer>`;
+
+/**
+ * Discovered V2 service with its metadata parsed from the given schema
+ */
+export function createService(
+  schema = SALES_ORDER_SCHEMA,
+  id = 'API_SALES_ORDER_SRV'
+): ODataService {
+  const metadata = parseMetadata(v2Metadata(schema), 'v2');
+  return {
+    id,
+    version: '0001',
+    title: id,
+    description: '',
+    odataVersion: 'v2',
+    url: `/sap/opu/odata/sap/${id}/`,
+    metadataUrl: `/sap/opu/odata/sap/${id}/$metadata`,
+    entitySets: metadata.entitySets.map(set => set.name as string),
+    metadata,
+  };
+}
@@ -0,0 +1,792 @@
+/**
+ * Unit tests for the SAP operation tools of the hierarchical registry
+ */
+
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import { executeHttpRequest } from '@sap-cloud-sdk/http-client';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { HierarchicalSAPToolRegistry } from '../src/tools/hierarchical-tool-registry.js';
+import { SAPClient } from '../src/services/sap-client.js';
+import { Logger } from '../src/utils/logger.js';
+import { SAPDiscoveryService } from '../src/services/sap-discovery.js';
+import { ODataService } from '../src/types/sap-types.js';
+import {
+  createSAPClient,
+  createService,
+  httpError,
+  httpResponse,
+  mockRequests,
+  SALES_ORDER_SCHEMA,
+} from './helpers.js';
+
+jest.mock('@sap-cloud-sdk/http-client', () => ({ executeHttpRequest: jest.fn() }));
+// The auth middleware imports the server entry point, tools run without authentication here
+jest.mock('../src/middleware/mcp-auth.js', () => ({ MCPAuthManager: jest.fn() }));
+
+interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+type ToolHandler = (
+  args: Record<string, unknown>,
+  extra: { signal?: AbortSignal }
+) => Promise<ToolResult>;
+
+/**
+ * Registry on the given services whose tools are called like the MCP server would,
+ * authenticating tool calls with the given auth manager
+ */
+async function createRegistry(
+  services: ODataService[] = [createService()],
+  client: SAPClient = createSAPClient(),
+  authManager?: unknown
+) {
+  const tools = new Map<string, ToolHandler>();
+  const mcpServer = {
+    registerTool: (name: string, _config: unknown, handler: ToolHandler) => {
+      tools.set(name, handler);
+    },
+  } as unknown as McpServer;
+  const registry = new HierarchicalSAPToolRegistry(
+    mcpServer,
+    client,
+    new Logger('RegistryTest'),
+    services
+  );
+  Object.assign(registry, { authManager });
+  await registry.registerDiscoveryTools();
+
+  return (name: string, args: Record<string, unknown>, signal?: AbortSignal) =>
+    tools.get(name)!(args, { signal });
+}
+
+/**
+ * JSON block the tools put after their status line
+ */
+function output(result: ToolResult): Record<string, unknown> {
+  return JSON.parse(result.content[0].text.split('\n\n')[1]);
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  (executeHttpRequest as jest.MockedFunction<typeof executeHttpRequest>).mockReset();
+});
+
+describe('execute-entity-operation', () => {
+  const orders = {
+    d: {
+      __count: '1',
+      results: [
+        {
+          __metadata: { uri: "A_SalesOrder('1')", type: 'API_SALES_ORDER_SRV.A_SalesOrderType' },
+          SalesOrder: '1',
+          CreationDate: '/Date(1709287200000)/',
+          TotalNetAmount: '1500.250',
+        },
+      ],
+    },
+  };
+
+  test('returns reads in the normalized shape', async () => {
+    mockRequests(httpResponse(200, orders));
+    const callTool = await createRegistry();
+
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'read',
+      queryOptions: { $count: true },
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(output(result)).toEqual({
+      items: [
+        { SalesOrder: '1', CreationDate: '2024-03-01T10:00:00.000Z', TotalNetAmount: 1500.25 },
+      ],
+      count: 1,
+    });
+  });
+
+  test('returns the unmodified payload with raw', async () => {
+    mockRequests(httpResponse(200, orders));
+    const callTool = await createRegistry();
+
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'read',
+      queryOptions: { $count: true },
+      raw: true,
+    });
+
+    expect(output(result)).toEqual({ totalCount: 1, ...orders });
+  });
+});
+
+describe('counting', () => {
+  async function count(args: Record<string, unknown>, response = httpResponse(200, '42')) {
+    const sent = mockRequests(response);
+    const callTool = await createRegistry();
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'count',
+      ...args,
+    });
+    return { result, sent };
+  }
+
+  test('requests only the plain number with /$count', async () => {
+    const { result, sent } = await count({ queryOptions: { $filter: "SalesOrderType eq 'OR'" } });
+
+    expect(decodeURIComponent(sent[0].url!)).toBe(
+      "/sap/opu/odata/sap/API_SALES_ORDER_SRV/A_SalesOrder/$count?$filter=SalesOrderType+eq+'OR'"
+    );
+    expect(sent[0].headers).toMatchObject({ Accept: 'text/plain' });
+    expect(output(result)).toEqual({ items: [], count: 42 });
+  });
+
+  test('returns the count as top-level totalCount with raw', async () => {
+    const { result } = await count({ raw: true });
+
+    expect(output(result)).toEqual({ totalCount: 42 });
+  });
+
+  test('rejects a response that is not a number', async () => {
+    const { result } = await count({}, httpResponse(200, '<html>Logon</html>'));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unexpected $count response: <html>Logon</html>');
+  });
+
+  test('asks V2 services for the inline count of a read', async () => {
+    const sent = mockRequests(httpResponse(200, { d: { __count: '42', results: [] } }));
+    const callTool = await createRegistry();
+
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'read',
+      queryOptions: { $top: 1, $count: true },
+      raw: true,
+    });
+
+    expect(decodeURIComponent(sent[0].url!)).toContain('$top=1&$inlinecount=allpages');
+    expect(output(result)).toMatchObject({ totalCount: 42 });
+  });
+});
+
+describe('query options', () => {
+  async function read(queryOptions: Record<string, unknown>, service = createService()) {
+    const sent = mockRequests(httpResponse(200, { d: { results: [] } }));
+    const callTool = await createRegistry([service]);
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'read',
+      queryOptions,
+    });
+    return { result, sent };
+  }
+
+  test.each([
+    [
+      { $select: 'SalesOrder,Customer' },
+      "Unknown property 'Customer' on A_SalesOrderType in $select 'Customer'",
+    ],
+    [
+      { $orderby: 'CreationDate desc, Customer asc' },
+      "Unknown property 'Customer' on A_SalesOrderType in $orderby 'Customer'",
+    ],
+    [
+      { $select: 'to_Item/Plant', $expand: 'to_Item' },
+      "Unknown property 'Plant' on A_SalesOrderItemType in $select 'to_Item/Plant'",
+    ],
+    [
+      { $expand: 'to_Item/to_Partner' },
+      "Unknown navigation property 'to_Partner' on A_SalesOrderItemType in $expand 'to_Item/to_Partner'",
+    ],
+  ])('rejects unknown properties in %p', async (queryOptions, message) => {
+    const { result, sent } = await read(queryOptions);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(message);
+    expect(sent).toHaveLength(0);
+  });
+
+  test('passes known property paths to SAP', async () => {
+    const { result, sent } = await read({
+      $select: 'SalesOrder,to_Item/Material',
+      $expand: 'to_Item/to_ScheduleLine',
+      $orderby: 'CreationDate desc',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(decodeURIComponent(sent[0].url!)).toContain(
+      '$select=SalesOrder,to_Item/Material&$expand=to_Item/to_ScheduleLine&$orderby=CreationDate+desc'
+    );
+  });
+
+  test.each(['$apply', '$search', '$compute'])('rejects %s on OData V2 services', async option => {
+    const { result, sent } = await read({ [option]: 'TotalNetAmount' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      `${option} is only supported by OData V4 services, this service uses OData V2`
+    );
+    expect(sent).toHaveLength(0);
+  });
+
+  test('accepts $apply on OData V4 services and leaves its aliases to SAP', async () => {
+    const { result, sent } = await read(
+      {
+        $apply: 'groupby((SalesOrderType),aggregate(TotalNetAmount with sum as Revenue))',
+        $orderby: 'Revenue desc',
+      },
+      { ...createService(), odataVersion: 'v4' }
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(decodeURIComponent(sent[0].url!)).toContain(
+      '$apply=groupby((SalesOrderType),aggregate(TotalNetAmount+with+sum+as+Revenue))&$orderby=Revenue+desc'
+    );
+  });
+
+  test('rejects unknown $apply transformations', async () => {
+    const { result } = await read(
+      { $apply: 'groupby((SalesOrderType))/pivot(Region)' },
+      { ...createService(), odataVersion: 'v4' }
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Unsupported $apply transformation 'pivot'");
+  });
+});
+
+describe('navigation paths', () => {
+  async function navigate(
+    entityName: string,
+    parameters: Record<string, unknown>,
+    navigationPath: unknown[],
+    response: unknown,
+    queryOptions?: Record<string, unknown>
+  ) {
+    const sent = mockRequests(httpResponse(200, response));
+    const callTool = await createRegistry();
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName,
+      operation: 'read',
+      parameters,
+      navigationPath,
+      queryOptions,
+    });
+    return { result, sent };
+  }
+
+  test('follows several associations and returns the collection at the end', async () => {
+    const { result, sent } = await navigate(
+      'A_SalesOrderType',
+      { SalesOrder: '1000' },
+      [
+        { property: 'to_Item', keys: { SalesOrder: '1000', SalesOrderItem: '10' } },
+        { property: 'to_ScheduleLine' },
+      ],
+      { d: { results: [{ ScheduleLine: '1', ConfdOrderQtyByMatlAvailCheck: '2.000' }] } }
+    );
+
+    expect(sent[0].url).toBe(
+      "/sap/opu/odata/sap/API_SALES_ORDER_SRV/A_SalesOrder('1000')/to_Item(SalesOrder='1000',SalesOrderItem='10')/to_ScheduleLine"
+    );
+    expect(result.content[0].text).toMatch(
+      /^✅ Reading A_SalesOrderScheduleLineType entities via A_SalesOrderType\/to_Item\/to_ScheduleLine/
+    );
+    expect(output(result).items).toEqual([{ ScheduleLine: '1', ConfdOrderQtyByMatlAvailCheck: 2 }]);
+  });
+
+  test('returns the single entity of a to-one association', async () => {
+    const { result, sent } = await navigate(
+      'A_SalesOrderItemType',
+      { SalesOrder: '1000', SalesOrderItem: '10' },
+      [{ property: 'to_SalesOrder' }],
+      { d: { __metadata: { etag: 'W/"7"' }, SalesOrder: '1000', TotalNetAmount: '52.500' } }
+    );
+
+    expect(sent[0].url).toBe(
+      "/sap/opu/odata/sap/API_SALES_ORDER_SRV/A_SalesOrderItem(SalesOrder='1000',SalesOrderItem='10')/to_SalesOrder"
+    );
+    expect(result.content[0].text).toMatch(/^✅ Reading A_SalesOrderType entity via /);
+    expect(output(result)).toEqual({
+      items: [{ SalesOrder: '1000', TotalNetAmount: 52.5 }],
+      etag: 'W/"7"',
+    });
+  });
+
+  test.each([
+    [
+      'collection options on a single entity',
+      'A_SalesOrderItemType',
+      [{ property: 'to_SalesOrder' }],
+      { $top: 5 },
+      '$top cannot be applied: the navigation path returns a single A_SalesOrderType',
+    ],
+    [
+      'navigating on from a collection',
+      'A_SalesOrderType',
+      [{ property: 'to_Item' }, { property: 'to_ScheduleLine' }],
+      undefined,
+      "Cannot navigate from 'to_Item' to 'to_ScheduleLine': provide 'keys' to select a single A_SalesOrderItemType",
+    ],
+    [
+      'keys on a to-one association',
+      'A_SalesOrderItemType',
+      [{ property: 'to_SalesOrder', keys: { SalesOrder: '1000' } }],
+      undefined,
+      "'to_SalesOrder' refers to a single A_SalesOrderType, 'keys' are not allowed",
+    ],
+    [
+      'an unknown navigation property',
+      'A_SalesOrderType',
+      [{ property: 'to_Partner' }],
+      undefined,
+      "Navigation property 'to_Partner' not found on A_SalesOrderType. Available: to_Item",
+    ],
+  ])('rejects %s', async (_, entityName, navigationPath, queryOptions, message) => {
+    const { result, sent } = await navigate(
+      entityName,
+      { SalesOrder: '1000', SalesOrderItem: '10' },
+      navigationPath,
+      { d: {} },
+      queryOptions
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(message);
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('deep insert', () => {
+  async function create(parameters: Record<string, unknown>, ...responses: unknown[]) {
+    const sent = mockRequests(...responses);
+    const callTool = await createRegistry([createService()]);
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'create',
+      parameters,
+    });
+    return { result, sent };
+  }
+
+  test('creates nested entities in one request and returns their keys', async () => {
+    const created = {
+      d: {
+        SalesOrder: '1001',
+        SalesOrderType: 'OR',
+        to_Item: {
+          results: [
+            {
+              SalesOrder: '1001',
+              SalesOrderItem: '10',
+              Material: 'TG11',
+              to_ScheduleLine: {
+                results: [{ SalesOrder: '1001', SalesOrderItem: '10', ScheduleLine: '1' }],
+              },
+            },
+            { SalesOrder: '1001', SalesOrderItem: '20', Material: 'TG12' },
+          ],
+        },
+      },
+    };
+
+    const { result, sent } = await create(
+      {
+        SalesOrderType: 'OR',
+        to_Item: [
+          { Material: 'TG11', to_ScheduleLine: [{ ConfdOrderQtyByMatlAvailCheck: '2' }] },
+          { Material: 'TG12' },
+        ],
+      },
+      httpResponse(201, created)
+    );
+
+    expect(sent[0].data).toEqual({
+      SalesOrderType: 'OR',
+      to_Item: {
+        results: [
+          {
+            Material: 'TG11',
+            to_ScheduleLine: { results: [{ ConfdOrderQtyByMatlAvailCheck: '2' }] },
+          },
+          { Material: 'TG12' },
+        ],
+      },
+    });
+    const createdKeys = result.content[0].text.split('🔑 Created keys: ')[1].split('\n\n')[0];
+    expect(JSON.parse(createdKeys)).toEqual({
+      SalesOrder: '1001',
+      to_Item: [
+        {
+          SalesOrder: '1001',
+          SalesOrderItem: '10',
+          to_ScheduleLine: [{ SalesOrder: '1001', SalesOrderItem: '10', ScheduleLine: '1' }],
+        },
+        { SalesOrder: '1001', SalesOrderItem: '20' },
+      ],
+    });
+  });
+
+  test('expands the nested entities on OData V4 services', async () => {
+    const sent = mockRequests(httpResponse(201, { SalesOrder: '1001', to_Item: [] }));
+    const callTool = await createRegistry([{ ...createService(), odataVersion: 'v4' }]);
+
+    await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'create',
+      parameters: { to_Item: [{ Material: 'TG11', to_ScheduleLine: [] }] },
+    });
+
+    expect(decodeURIComponent(sent[0].url!)).toBe(
+      '/sap/opu/odata/sap/API_SALES_ORDER_SRV/A_SalesOrder?$expand=to_Item($expand=to_ScheduleLine)'
+    );
+    expect(sent[0].data).toEqual({ to_Item: [{ Material: 'TG11', to_ScheduleLine: [] }] });
+  });
+
+  test.each([
+    [
+      'an unknown property of a nested entity',
+      { to_Item: [{ Material: 'TG11' }, { Plant: '1010' }] },
+      "Unknown property 'Plant' on A_SalesOrderItemType at 'A_SalesOrderType/to_Item[1]'",
+    ],
+    [
+      'an object for a to-many navigation property',
+      { to_Item: { Material: 'TG11' } },
+      "'A_SalesOrderType/to_Item' must be an array of A_SalesOrderItemType objects",
+    ],
+    [
+      'an array for a to-one navigation property',
+      { to_Item: [{ to_SalesOrder: [{ SalesOrderType: 'OR' }] }] },
+      "'A_SalesOrderType/to_Item[0]/to_SalesOrder' must be a single A_SalesOrderType object",
+    ],
+  ])('rejects %s', async (_, parameters, message) => {
+    const { result, sent } = await create(parameters, httpResponse(201, { d: {} }));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(message);
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('execute-batch-operations', () => {
+  /**
+   * One response of a V2 multipart $batch response
+   */
+  function part(status: string, body?: unknown): string {
+    return [
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      '',
+      `HTTP/1.1 ${status}`,
+      'Content-Type: application/json',
+      '',
+      body === undefined ? '' : JSON.stringify(body),
+      '',
+    ].join('\r\n');
+  }
+
+  function batchResponse(...parts: string[]) {
+    const body = [...parts.flatMap(content => ['--batch_r', content]), '--batch_r--', ''];
+    return httpResponse(202, body.join('\r\n'), {
+      'Content-Type': 'multipart/mixed; boundary=batch_r',
+    });
+  }
+
+  const changeset = (...parts: string[]) =>
+    [
+      'Content-Type: multipart/mixed; boundary=changeset_r',
+      '',
+      ...parts.flatMap(content => ['--changeset_r', content]),
+      '--changeset_r--',
+    ].join('\r\n');
+
+  const operations = [
+    {
+      id: 'read',
+      entityName: 'A_SalesOrderType',
+      operation: 'read-single',
+      parameters: { SalesOrder: '1000' },
+    },
+    {
+      id: 'create',
+      entityName: 'A_SalesOrderType',
+      operation: 'create',
+      parameters: { SalesOrderType: 'OR' },
+      changeset: 'order',
+    },
+  ];
+
+  async function callBatch(...responses: unknown[]) {
+    mockRequests(...responses);
+    const callTool = await createRegistry();
+    return callTool('execute-batch-operations', { serviceId: 'API_SALES_ORDER_SRV', operations });
+  }
+
+  test('reports committed changesets', async () => {
+    const result = await callBatch(
+      batchResponse(
+        part('200 OK', { d: { SalesOrder: '1000' } }),
+        changeset(part('201 Created', { d: { SalesOrder: '1001' } }))
+      )
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toMatch(
+      /^✅ Executed 2 operations .* \(2 succeeded, 0 failed\)/
+    );
+    expect(output(result).changesets).toEqual({ order: 'committed' });
+  });
+
+  test('fails when a changeset was rolled back', async () => {
+    const result = await callBatch(
+      batchResponse(
+        part('200 OK', { d: { SalesOrder: '1000' } }),
+        part('400 Bad Request', { error: { code: 'V1/123', message: { value: 'Bad order type' } } })
+      )
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(
+      /^❌ \$batch request on .* failed: changeset 'order' rolled back \(1 succeeded, 1 failed\)/
+    );
+    expect(output(result).changesets).toEqual({ order: 'rolled back' });
+  });
+
+  test('fails when no operation succeeded', async () => {
+    const notFound = { error: { code: 'SY/530', message: { value: 'Not found' } } };
+    const result = await callBatch(
+      batchResponse(part('404 Not Found', notFound), part('400 Bad Request', notFound))
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(
+      /failed: no operation succeeded \(0 succeeded, 2 failed\)/
+    );
+  });
+});
+
+describe('optimistic concurrency', () => {
+  const order = {
+    d: { __metadata: { etag: 'W/"2"' }, SalesOrder: '1000', PurchaseOrderByCustomer: 'PO-2' },
+  };
+  const keys = { SalesOrder: '1000' };
+
+  test('returns the ETag of read-single and sends it back as If-Match', async () => {
+    const sent = mockRequests(httpResponse(200, order), httpResponse(204));
+    const callTool = await createRegistry();
+    const target = { serviceId: 'API_SALES_ORDER_SRV', entityName: 'A_SalesOrderType' };
+
+    const read = await callTool('execute-entity-operation', {
+      ...target,
+      operation: 'read-single',
+      parameters: keys,
+    });
+    const { etag } = output(read);
+    await callTool('execute-entity-operation', {
+      ...target,
+      operation: 'update',
+      parameters: { ...keys, SalesOrderType: 'OR' },
+      ifMatch: etag,
+    });
+    await callTool('execute-entity-operation', {
+      ...target,
+      operation: 'delete',
+      parameters: keys,
+      ifMatch: etag,
+    });
+
+    expect(etag).toBe('W/"2"');
+    expect(sent.map(request => [request.method, request.headers?.['If-Match']])).toEqual([
+      ['GET', undefined],
+      ['PATCH', 'W/"2"'],
+      ['DELETE', 'W/"2"'],
+    ]);
+  });
+
+  test('reports a concurrent modification with the current version', async () => {
+    mockRequests(httpError(412), httpResponse(200, order));
+    const callTool = await createRegistry();
+
+    const result = await callTool('execute-entity-operation', {
+      serviceId: 'API_SALES_ORDER_SRV',
+      entityName: 'A_SalesOrderType',
+      operation: 'update',
+      parameters: { ...keys, SalesOrderType: 'OR' },
+      ifMatch: 'W/"1"',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      error: 'concurrent_modification',
+      sentEtag: 'W/"1"',
+      currentEtag: 'W/"2"',
+      currentVersion: order.d,
+    });
+  });
+});
+
+describe('draft lifecycle', () => {
+  const DRAFT_UUID = 'fa163e2c-8ad1-1eda-a3c8-4d2d0a4c5a37';
+  const schema = `
+    <EntityType Name="C_PurchaseReqType">
+      <Key>
+        <PropertyRef Name="PurchaseRequisition"/>
+        <PropertyRef Name="DraftUUID"/>
+        <PropertyRef Name="IsActiveEntity"/>
+      </Key>
+      <Property Name="PurchaseRequisition" Type="Edm.String" Nullable="false" MaxLength="10"/>
+      <Property Name="DraftUUID" Type="Edm.Guid" Nullable="false"/>
+      <Property Name="IsActiveEntity" Type="Edm.Boolean" Nullable="false"/>
+      <Property Name="PurReqnDescription" Type="Edm.String" MaxLength="40"/>
+    </EntityType>
+    <EntityContainer Name="C_PURCHASEREQ_SRV_Entities" m:IsDefaultEntityContainer="true">
+      <EntitySet Name="C_PurchaseReq" EntityType="API_SALES_ORDER_SRV.C_PurchaseReqType"/>
+      <FunctionImport Name="C_PurchaseReqEdit" ReturnType="API_SALES_ORDER_SRV.C_PurchaseReqType" EntitySet="C_PurchaseReq" m:HttpMethod="POST">
+        <Parameter Name="PurchaseRequisition" Type="Edm.String" Mode="In"/>
+        <Parameter Name="DraftUUID" Type="Edm.Guid" Mode="In"/>
+        <Parameter Name="IsActiveEntity" Type="Edm.Boolean" Mode="In"/>
+        <Parameter Name="PreserveChanges" Type="Edm.Boolean" Mode="In"/>
+      </FunctionImport>
+      <FunctionImport Name="C_PurchaseReqActivation" ReturnType="API_SALES_ORDER_SRV.C_PurchaseReqType" EntitySet="C_PurchaseReq" m:HttpMethod="POST">
+        <Parameter Name="PurchaseRequisition" Type="Edm.String" Mode="In"/>
+        <Parameter Name="DraftUUID" Type="Edm.Guid" Mode="In"/>
+        <Parameter Name="IsActiveEntity" Type="Edm.Boolean" Mode="In"/>
+      </FunctionImport>
+    </EntityContainer>`;
+  const draft = {
+    d: { PurchaseRequisition: '10000001', DraftUUID: DRAFT_UUID, IsActiveEntity: false },
+  };
+
+  async function callDraftTool(operation: string, parameters: Record<string, unknown>) {
+    const callTool = await createRegistry([createService(schema, 'C_PURCHASEREQ_SRV')]);
+    return callTool('execute-entity-operation', {
+      serviceId: 'C_PURCHASEREQ_SRV',
+      entityName: 'C_PurchaseReqType',
+      operation,
+      parameters,
+    });
+  }
+
+  test('edits the active entity with the initial DraftUUID and returns the draft keys', async () => {
+    const sent = mockRequests(httpResponse(200, draft));
+
+    const result = await callDraftTool('draft-edit', { PurchaseRequisition: '10000001' });
+
+    expect(sent[0].url).toBe(
+      "/sap/opu/odata/sap/C_PURCHASEREQ_SRV/C_PurchaseReqEdit?PurchaseRequisition='10000001'&DraftUUID=guid'00000000-0000-0000-0000-000000000000'&IsActiveEntity=true&PreserveChanges=true"
+    );
+    const draftKeys = result.content[0].text.split('📝 Draft keys: ')[1].split('\n💡')[0];
+    expect(JSON.parse(draftKeys)).toEqual(draft.d);
+  });
+
+  test('updates and activates the draft addressed by its DraftUUID', async () => {
+    const sent = mockRequests(httpResponse(200, draft));
+    const keys = { PurchaseRequisition: '10000001', DraftUUID: DRAFT_UUID };
+
+    await callDraftTool('update', { ...keys, PurReqnDescription: 'Office chairs' });
+    await callDraftTool('draft-activate', keys);
+
+    expect(sent.map(request => [request.method, request.url])).toEqual([
+      [
+        'PATCH',
+        `/sap/opu/odata/sap/C_PURCHASEREQ_SRV/C_PurchaseReq(PurchaseRequisition='10000001',DraftUUID=guid'${DRAFT_UUID}',IsActiveEntity=false)`,
+      ],
+      [
+        'POST',
+        `/sap/opu/odata/sap/C_PURCHASEREQ_SRV/C_PurchaseReqActivation?PurchaseRequisition='10000001'&DraftUUID=guid'${DRAFT_UUID}'&IsActiveEntity=false`,
+      ],
+    ]);
+  });
+
+  test('reads the active entity with the initial DraftUUID', async () => {
+    const sent = mockRequests(httpResponse(200, draft));
+
+    await callDraftTool('read-single', { PurchaseRequisition: '10000001' });
+
+    expect(sent[0].url).toBe(
+      "/sap/opu/odata/sap/C_PURCHASEREQ_SRV/C_PurchaseReq(PurchaseRequisition='10000001',DraftUUID=guid'00000000-0000-0000-0000-000000000000',IsActiveEntity=true)"
+    );
+  });
+
+  test('asks for the DraftUUID before changing a draft', async () => {
+    const sent = mockRequests(httpResponse(200, draft));
+
+    const result = await callDraftTool('draft-discard', { PurchaseRequisition: '10000001' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      "'DraftUUID' is required to address the draft of C_PurchaseReqType"
+    );
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('execute-service-operation authentication', () => {
+  const schema = SALES_ORDER_SCHEMA.replace(
+    '</EntityContainer>',
+    `<FunctionImport Name="ReleaseSalesOrder" ReturnType="API_SALES_ORDER_SRV.A_SalesOrderType" EntitySet="A_SalesOrder" m:HttpMethod="POST">
+      <Parameter Name="SalesOrder" Type="Edm.String" Mode="In"/>
+    </FunctionImport>
+  </EntityContainer>`
+  );
+  const args = {
+    serviceId: 'API_SALES_ORDER_SRV',
+    operationName: 'ReleaseSalesOrder',
+    parameters: { SalesOrder: '1' },
+  };
+
+  function createAuthManager(...authenticated: boolean[]) {
+    const authenticateToolCall = jest.fn(async () => ({
+      authenticated: authenticated.shift() ?? false,
+      error: { message: 'Missing scope', code: 'INSUFFICIENT_SCOPE' },
+    }));
+    return {
+      authenticateToolCall,
+      formatAuthError: (result: { error: { message: string } }) => ({
+        error: result.error.message,
+      }),
+    };
+  }
+
+  test('authenticates before the service metadata is loaded', async () => {
+    const ensureMetadata = jest.spyOn(SAPDiscoveryService.prototype, 'ensureMetadata');
+    const authManager = createAuthManager(false);
+    const callTool = await createRegistry([createService(schema)], createSAPClient(), authManager);
+
+    const result = await callTool('execute-service-operation', args);
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toEqual({ error: 'Missing scope' });
+    expect(authManager.authenticateToolCall).toHaveBeenCalledWith('execute-service-operation', {
+      ...args,
+      httpMethod: 'GET',
+    });
+    expect(ensureMetadata).not.toHaveBeenCalled();
+  });
+
+  test('requires the write scope for actions', async () => {
+    const authManager = createAuthManager(true, false);
+    const callTool = await createRegistry([createService(schema)], createSAPClient(), authManager);
+
+    const result = await callTool('execute-service-operation', args);
+
+    expect(result.isError).toBe(true);
+    expect(authManager.authenticateToolCall).toHaveBeenLastCalledWith('execute-service-operation', {
+      ...args,
+      httpMethod: 'POST',
+    });
+    expect(executeHttpRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Unit tests for OData $batch serialization and parsing
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ODataBatchUtils } from '../src/utils/odata-batch.js';
+import { BatchOperation } from '../src/types/sap-types.js';
+
+const operations: BatchOperation[] = [
+  { id: 'read', method: 'GET', url: "A_SalesOrder('1000')" },
+  {
+    id: 'header',
+    method: 'POST',
+    url: 'A_SalesOrder',
+    body: { SalesOrderType: 'OR' },
+    changeset: 'order',
+  },
+  {
+    id: 'item',
+    method: 'POST',
+    url: '$header/to_Item',
+    body: { Material: 'TG11' },
+    changeset: 'order',
+  },
+];
+
+function httpResponse(status: string, body?: unknown, headers: string[] = []): string {
+  return [
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    '',
+    `HTTP/1.1 ${status}`,
+    'Content-Type: application/json',
+    ...headers,
+    '',
+    body === undefined ? '' : JSON.stringify(body),
+    '',
+  ].join('\r\n');
+}
+
+describe('ODataBatchUtils V2 multipart', () => {
+  test('sends reads as parts and creates as one changeset with Content-IDs', () => {
+    const { body, contentType } = ODataBatchUtils.buildMultipartBatch(operations);
+    const boundary = /boundary=(.+)$/.exec(contentType)![1];
+
+    expect(contentType).toMatch(/^multipart\/mixed; boundary=batch_/);
+    expect(body.startsWith(`--${boundary}\r\n`)).toBe(true);
+    expect(body.trimEnd().endsWith(`--${boundary}--`)).toBe(true);
+    expect(body).toContain("GET A_SalesOrder('1000') HTTP/1.1");
+    expect(body.match(/Content-Type: multipart\/mixed; boundary=changeset_/g)).toHaveLength(1);
+    expect(body).toContain('Content-ID: header');
+    expect(body).toContain('Content-ID: item');
+    expect(body).toContain('POST $header/to_Item HTTP/1.1');
+    expect(body).toContain('{"Material":"TG11"}');
+  });
+
+  test('maps a successful response back to the operations', () => {
+    const response = [
+      '--batch_r',
+      httpResponse('200 OK', { d: { SalesOrder: '1000' } }),
+      '--batch_r',
+      'Content-Type: multipart/mixed; boundary=changeset_r',
+      '',
+      '--changeset_r',
+      httpResponse('201 Created', { d: { SalesOrder: '1001' } }, ['ETag: W/"1"']),
+      '--changeset_r',
+      httpResponse('201 Created', { d: { SalesOrderItem: '10' } }),
+      '--changeset_r--',
+      '--batch_r--',
+      '',
+    ].join('\r\n');
+
+    const results = ODataBatchUtils.parseMultipartBatch(
+      operations,
+      response,
+      'multipart/mixed; boundary=batch_r'
+    );
+
+    expect(results.map(result => [result.id, result.status, result.success])).toEqual([
+      ['read', 200, true],
+      ['header', 201, true],
+      ['item', 201, true],
+    ]);
+    expect(results[1].headers.etag).toBe('W/"1"');
+    expect(results[2].body).toEqual({ d: { SalesOrderItem: '10' } });
+  });
+
+  test('reports every operation of a failed changeset as rolled back', () => {
+    const error = {
+      error: {
+        code: 'V1/123',
+        message: { lang: 'en', value: 'Material TG11 does not exist' },
+        innererror: {
+          errordetails: [
+            { code: 'V1/123', message: 'Material TG11 does not exist', target: 'Material' },
+          ],
+        },
+      },
+    };
+    const response = [
+      '--batch_r',
+      httpResponse('200 OK', { d: { SalesOrder: '1000' } }),
+      '--batch_r',
+      httpResponse('400 Bad Request', error),
+      '--batch_r--',
+      '',
+    ].join('\r\n');
+
+    const results = ODataBatchUtils.parseMultipartBatch(
+      operations,
+      response,
+      'multipart/mixed; boundary="batch_r"'
+    );
+
+    expect(results[0].success).toBe(true);
+    [results[1], results[2]].forEach(result => {
+      expect(result.success).toBe(false);
+      expect(result.status).toBe(400);
+      expect(result.error).toBe(
+        "Rolled back: changeset 'order' failed: Material TG11 does not exist"
+      );
+      expect(result.messages?.[0]).toMatchObject({ code: 'V1/123', target: 'Material' });
+    });
+  });
+
+  test('rejects a response without boundary', () => {
+    expect(() => ODataBatchUtils.parseMultipartBatch(operations, '', 'multipart/mixed')).toThrow(
+      'missing multipart boundary'
+    );
+  });
+});
+
+describe('ODataBatchUtils V4 JSON', () => {
+  test('builds atomicity groups and dependsOn for Content-ID references', () => {
+    const { body, contentType } = ODataBatchUtils.buildJsonBatch(operations);
+    const { requests } = JSON.parse(body);
+
+    expect(contentType).toBe('application/json');
+    expect(requests.map((request: { id: string }) => request.id)).toEqual([
+      'read',
+      'header',
+      'item',
+    ]);
+    expect(requests[0].atomicityGroup).toBeUndefined();
+    expect(requests[1].atomicityGroup).toBe('order');
+    expect(requests[2]).toMatchObject({
+      url: '$header/to_Item',
+      atomicityGroup: 'order',
+      dependsOn: ['header'],
+      body: { Material: 'TG11' },
+    });
+  });
+
+  test('maps responses and a single group failure back to the operations', () => {
+    const results = ODataBatchUtils.parseJsonBatch(operations, {
+      responses: [
+        { id: 'read', status: 200, body: { SalesOrder: '1000' } },
+        {
+          id: 'header',
+          status: 400,
+          body: { error: { code: 'SO/1', message: 'Sales order type is missing' } },
+        },
+      ],
+    });
+
+    expect(results[0]).toMatchObject({ id: 'read', status: 200, success: true });
+    expect(results[1]).toMatchObject({
+      id: 'header',
+      status: 400,
+      success: false,
+      error: 'Sales order type is missing',
+    });
+    expect(results[2]).toMatchObject({
+      id: 'item',
+      status: 400,
+      success: false,
+      error: "Rolled back: changeset 'order' failed: Sales order type is missing",
+    });
+  });
+});
+
+describe('ODataBatchUtils.validateOperations', () => {
+  test('rejects reads inside a changeset', () => {
+    expect(() =>
+      ODataBatchUtils.validateOperations([
+        { id: 'read', method: 'GET', url: 'A_SalesOrder', changeset: 'order' },
+      ])
+    ).toThrow('read operations cannot be part of changeset');
+  });
+
+  test('rejects references to operations that are not earlier creates', () => {
+    expect(() =>
+      ODataBatchUtils.validateOperations([
+        { id: 'item', method: 'POST', url: '$header/to_Item', changeset: 'order' },
+        { id: 'header', method: 'POST', url: 'A_SalesOrder', changeset: 'order' },
+      ])
+    ).toThrow("'$header' must reference a create operation earlier in the batch");
+  });
+
+  test('rejects references across changesets', () => {
+    expect(() =>
+      ODataBatchUtils.validateOperations([
+        { id: 'header', method: 'POST', url: 'A_SalesOrder', changeset: 'first' },
+        { id: 'item', method: 'POST', url: '$header/to_Item', changeset: 'second' },
+      ])
+    ).toThrow('can only be referenced within the same changeset');
+  });
+
+  test('rejects duplicate ids', () => {
+    expect(() =>
+      ODataBatchUtils.validateOperations([
+        { id: 'a', method: 'DELETE', url: "A_SalesOrder('1')" },
+        { id: 'a', method: 'DELETE', url: "A_SalesOrder('2')" },
+      ])
+    ).toThrow("Duplicate operation id 'a'");
+  });
+});
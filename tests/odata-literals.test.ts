@@ -0,0 +1,115 @@
+/**
+ * Unit tests for OData literal formatting
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ODataLiteralUtils } from '../src/utils/odata-literals.js';
+
+describe('ODataLiteralUtils.formatLiteral', () => {
+  test.each([
+    ['Edm.String', 'ABC', "'ABC'", "'ABC'"],
+    [
+      'Edm.Guid',
+      '005056a2-0b1c-1ede-a5e0-6d2f4e4c1f00',
+      "guid'005056a2-0b1c-1ede-a5e0-6d2f4e4c1f00'",
+      '005056a2-0b1c-1ede-a5e0-6d2f4e4c1f00',
+    ],
+    ['Edm.Int32', 42, '42', '42'],
+    ['Edm.Int64', '9007199254740993', '9007199254740993L', '9007199254740993'],
+    ['Edm.Decimal', '1500.25', '1500.25M', '1500.25'],
+    ['Edm.Double', 1.5, '1.5d', '1.5'],
+    ['Edm.Boolean', true, 'true', 'true'],
+    [
+      'Edm.DateTimeOffset',
+      '2024-03-01T10:15:00Z',
+      "datetimeoffset'2024-03-01T10:15:00Z'",
+      '2024-03-01T10:15:00Z',
+    ],
+  ])('%s value %p as V2 and V4 literal', (type, value, v2, v4) => {
+    expect(ODataLiteralUtils.formatLiteral(value, type, 'v2')).toBe(v2);
+    expect(ODataLiteralUtils.formatLiteral(value, type, 'v4')).toBe(v4);
+  });
+
+  test('doubles embedded single quotes in strings', () => {
+    expect(ODataLiteralUtils.formatLiteral("O'Neil", 'Edm.String', 'v2')).toBe("'O''Neil'");
+  });
+
+  test('formats V2 Edm.DateTime without offset', () => {
+    expect(ODataLiteralUtils.formatLiteral('2024-03-01', 'Edm.DateTime', 'v2')).toBe(
+      "datetime'2024-03-01T00:00:00'"
+    );
+    expect(ODataLiteralUtils.formatLiteral('2024-03-01T10:15:00Z', 'Edm.DateTime', 'v2')).toBe(
+      "datetime'2024-03-01T10:15:00'"
+    );
+    expect(ODataLiteralUtils.formatLiteral('/Date(1709287200000)/', 'Edm.DateTime', 'v2')).toBe(
+      "datetime'2024-03-01T10:00:00.000'"
+    );
+  });
+
+  test('formats V4 enum members with their type', () => {
+    expect(ODataLiteralUtils.formatLiteral('Open', 'com.sap.Status', 'v4')).toBe(
+      "com.sap.Status'Open'"
+    );
+  });
+
+  test('returns null for missing values', () => {
+    expect(ODataLiteralUtils.formatLiteral(null, 'Edm.String', 'v2')).toBe('null');
+  });
+
+  test.each([
+    ['Edm.Guid', 'not-a-guid'],
+    ['Edm.Int32', '12abc'],
+    ['Edm.Decimal', '1,5'],
+    ['Edm.Boolean', 'yes'],
+    ['Edm.DateTimeOffset', 'yesterday'],
+  ])('rejects an invalid %s value', (type, value) => {
+    expect(() => ODataLiteralUtils.formatLiteral(value, type, 'v4', 'Field')).toThrow(
+      `Invalid ${type} value for Field`
+    );
+  });
+});
+
+describe('ODataLiteralUtils.buildKeyPredicate', () => {
+  test('uses the short form for a single key', () => {
+    expect(
+      ODataLiteralUtils.buildKeyPredicate(
+        [{ name: 'SalesOrder', type: 'Edm.String' }],
+        { SalesOrder: '1000' },
+        'v2'
+      )
+    ).toBe("'1000'");
+  });
+
+  test('names every property of a composite key and percent-encodes the literals', () => {
+    const keys = [
+      { name: 'Material', type: 'Edm.String' },
+      { name: 'Plant', type: 'Edm.String' },
+      { name: 'DraftUUID', type: 'Edm.Guid' },
+    ];
+    const values = {
+      Material: 'A/B 1',
+      Plant: "P'1",
+      DraftUUID: '005056a2-0b1c-1ede-a5e0-6d2f4e4c1f00',
+    };
+
+    expect(ODataLiteralUtils.buildKeyPredicate(keys, values, 'v2')).toBe(
+      "Material='A%2FB%201',Plant='P''1',DraftUUID=guid'005056a2-0b1c-1ede-a5e0-6d2f4e4c1f00'"
+    );
+    expect(ODataLiteralUtils.buildKeyPredicate(keys, values, 'v4')).toBe(
+      "Material='A%2FB%201',Plant='P''1',DraftUUID=005056a2-0b1c-1ede-a5e0-6d2f4e4c1f00"
+    );
+  });
+
+  test('reports all missing key properties', () => {
+    expect(() =>
+      ODataLiteralUtils.buildKeyPredicate(
+        [
+          { name: 'Material', type: 'Edm.String' },
+          { name: 'Plant', type: 'Edm.String' },
+        ],
+        { Material: 'A' },
+        'v4'
+      )
+    ).toThrow('Missing required key property: Plant');
+  });
+});
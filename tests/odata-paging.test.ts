@@ -0,0 +1,77 @@
+/**
+ * Unit tests for server-driven paging helpers
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ODataPagingUtils } from '../src/utils/odata-paging.js';
+
+describe('ODataPagingUtils cursor', () => {
+  test('round-trips the page position of a service', () => {
+    const position = { path: "A_SalesOrder?$skiptoken='1000'", offset: 20 };
+    const cursor = ODataPagingUtils.encodeCursor('API_SALES_ORDER_SRV', position);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(ODataPagingUtils.decodeCursor(cursor, 'API_SALES_ORDER_SRV')).toEqual(position);
+  });
+
+  test('rejects a cursor of another service', () => {
+    const cursor = ODataPagingUtils.encodeCursor('API_SALES_ORDER_SRV', {
+      path: 'A_SalesOrder',
+      offset: 0,
+    });
+
+    expect(() => ODataPagingUtils.decodeCursor(cursor, 'API_BUSINESS_PARTNER')).toThrow(
+      "Cursor belongs to service 'API_SALES_ORDER_SRV', not 'API_BUSINESS_PARTNER'"
+    );
+  });
+
+  test.each([
+    ['garbage', 'not a cursor'],
+    ['an absolute path', JSON.stringify({ serviceId: 'S', path: '/sap/bc/x', offset: 0 })],
+    ['a path leaving the service', JSON.stringify({ serviceId: 'S', path: '../X', offset: 0 })],
+    ['a missing offset', JSON.stringify({ serviceId: 'S', path: 'A' })],
+  ])('rejects %s', (_, payload) => {
+    const cursor = Buffer.from(payload).toString('base64url');
+    expect(() => ODataPagingUtils.decodeCursor(cursor, 'S')).toThrow('Invalid cursor');
+  });
+});
+
+describe('ODataPagingUtils next links', () => {
+  test('reads V2 and V4 collections, counts and next links', () => {
+    const v2 = { d: { results: [{ a: 1 }], __count: '42', __next: 'A?$skiptoken=1' } };
+    const v4 = { value: [{ a: 1 }], '@odata.count': 42, '@odata.nextLink': 'A?$skiptoken=1' };
+
+    [v2, v4].forEach(payload => {
+      expect(ODataPagingUtils.extractItems(payload)).toEqual([{ a: 1 }]);
+      expect(ODataPagingUtils.extractCount(payload)).toBe(42);
+      expect(ODataPagingUtils.extractNextLink(payload)).toBe('A?$skiptoken=1');
+    });
+    expect(ODataPagingUtils.extractItems({ d: { a: 1 } })).toBeUndefined();
+  });
+
+  test('replaces the records and drops the next link', () => {
+    const result = ODataPagingUtils.withItems(
+      { d: { results: [1, 2], __next: 'A?$skiptoken=2', __count: '5' } },
+      [3]
+    );
+
+    expect(result).toEqual({ d: { results: [3], __count: '5' } });
+  });
+
+  test('makes next links relative to the service root', () => {
+    const servicePath = '/sap/opu/odata/sap/API_SALES_ORDER_SRV/';
+
+    expect(
+      ODataPagingUtils.toServiceRelativePath(
+        'https://host:443/sap/opu/odata/sap/API_SALES_ORDER_SRV/A_SalesOrder?$skiptoken=20',
+        servicePath
+      )
+    ).toBe('A_SalesOrder?$skiptoken=20');
+    expect(ODataPagingUtils.toServiceRelativePath('A_SalesOrder?$skip=20', servicePath)).toBe(
+      'A_SalesOrder?$skip=20'
+    );
+    expect(() =>
+      ODataPagingUtils.toServiceRelativePath('/sap/opu/odata/sap/OTHER/A', servicePath)
+    ).toThrow('is outside of service');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for single-flight request coalescing
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { RequestCoalescer } from '../src/utils/request-coalescer.js';
+import { createInstance } from './helpers.js';
+
+function createCoalescer(): RequestCoalescer {
+  return createInstance(RequestCoalescer);
+}
+
+/**
+ * Upstream call that settles when the test says so and records the signal it was given
+ */
+function upstream<T>() {
+  const call = {
+    calls: 0,
+    signal: undefined as AbortSignal | undefined,
+    resolve: undefined as unknown as (value: T) => void,
+    run: (signal: AbortSignal) => {
+      call.calls++;
+      call.signal = signal;
+      return new Promise<T>((resolve, reject) => {
+        call.resolve = resolve;
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+      });
+    },
+  };
+  return call;
+}
+
+describe('RequestCoalescer', () => {
+  test('answers concurrent callers with one upstream call', async () => {
+    const coalescer = createCoalescer();
+    const call = upstream<string>();
+
+    const first = coalescer.run('GET orders', call.run);
+    const second = coalescer.run('GET orders', call.run);
+    call.resolve('orders');
+
+    await expect(first).resolves.toEqual({ result: 'orders', coalesced: false });
+    await expect(second).resolves.toEqual({ result: 'orders', coalesced: true });
+    expect(call.calls).toBe(1);
+    expect(coalescer.getStats()).toEqual({ inFlight: 0, upstreamCalls: 1, coalescedCalls: 1 });
+  });
+
+  test('keeps the upstream call running while another caller still waits', async () => {
+    const coalescer = createCoalescer();
+    const call = upstream<string>();
+    const cancelled = new AbortController();
+
+    const first = coalescer.run('GET orders', call.run, cancelled.signal);
+    const second = coalescer.run('GET orders', call.run);
+    cancelled.abort(new Error('cancelled by client'));
+
+    await expect(first).rejects.toThrow('cancelled by client');
+    expect(call.signal?.aborted).toBe(false);
+
+    call.resolve('orders');
+    await expect(second).resolves.toEqual({ result: 'orders', coalesced: true });
+  });
+
+  test('aborts the upstream call once every caller has cancelled', async () => {
+    const coalescer = createCoalescer();
+    const call = upstream<string>();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = [
+      coalescer.run('GET orders', call.run, first.signal),
+      coalescer.run('GET orders', call.run, second.signal),
+    ];
+    first.abort(new Error('first cancelled'));
+    second.abort(new Error('second cancelled'));
+
+    await expect(results[0]).rejects.toThrow('first cancelled');
+    await expect(results[1]).rejects.toThrow('second cancelled');
+    expect(call.signal?.aborted).toBe(true);
+    expect(coalescer.getStats().inFlight).toBe(0);
+
+    // A later caller starts a fresh call instead of joining the aborted one
+    const next = upstream<string>();
+    const later = coalescer.run('GET orders', next.run);
+    next.resolve('orders');
+    await expect(later).resolves.toEqual({ result: 'orders', coalesced: false });
+    expect(next.calls).toBe(1);
+  });
+
+  test('rejects a caller whose signal is already aborted without calling upstream', async () => {
+    const coalescer = createCoalescer();
+    const call = upstream<string>();
+    const cancelled = new AbortController();
+    cancelled.abort(new Error('already cancelled'));
+
+    await expect(coalescer.run('GET orders', call.run, cancelled.signal)).rejects.toThrow(
+      'already cancelled'
+    );
+    expect(call.calls).toBe(0);
+  });
+
+  test('passes upstream errors to every waiting caller', async () => {
+    const coalescer = createCoalescer();
+    const failing = () => Promise.reject(new Error('503 Service Unavailable'));
+
+    const results = [coalescer.run('GET orders', failing), coalescer.run('GET orders', failing)];
+
+    for (const result of results) {
+      await expect(result).rejects.toThrow('503 Service Unavailable');
+    }
+    expect(coalescer.getStats()).toMatchObject({ inFlight: 0, upstreamCalls: 1 });
+  });
+});
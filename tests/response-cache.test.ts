@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the read response cache
+ */
+
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import { ResponseCache, CachedResponse } from '../src/utils/response-cache.js';
+import { createConfig, createInstance } from './helpers.js';
+
+const SERVICE = '/sap/opu/odata/sap/API_SALES_ORDER_SRV/';
+
+function createCache(settings: Record<string, unknown> = {}): ResponseCache {
+  return createInstance(
+    ResponseCache,
+    createConfig({
+      'responseCache.enabled': true,
+      'responseCache.ttl': 60000,
+      'responseCache.maxEntries': 500,
+      'responseCache.maxSizeMb': 50,
+      'responseCache.serviceTtls': {},
+      ...settings,
+    })
+  );
+}
+
+function response(data: unknown): CachedResponse {
+  return { status: 200, headers: {}, data };
+}
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('resolves the TTL per service and disables it with the cache', () => {
+    const cache = createCache({ 'responseCache.serviceTtls': { API_BUSINESS_PARTNER: 300000 } });
+
+    expect(cache.getTtl('API_SALES_ORDER_SRV')).toBe(60000);
+    expect(cache.getTtl('API_BUSINESS_PARTNER')).toBe(300000);
+    expect(createCache({ 'responseCache.enabled': false }).getTtl('API_SALES_ORDER_SRV')).toBe(0);
+  });
+
+  test('serves an entry until its TTL expires', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const cache = createCache();
+
+    cache.set('orders', response([1]), 1000, { servicePath: SERVICE, entitySet: 'A_SalesOrder' });
+    expect(cache.get('orders')).toEqual({ response: response([1]), storedAt: now });
+
+    clock.mockReturnValue(now + 1000);
+    expect(cache.get('orders')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ entries: 0, hits: 1, misses: 1 });
+  });
+
+  test('evicts the least recently used entry at the entry limit', () => {
+    const cache = createCache({ 'responseCache.maxEntries': 2 });
+    const scope = { servicePath: SERVICE, entitySet: 'A_SalesOrder' };
+
+    cache.set('a', response('a'), 60000, scope);
+    cache.set('b', response('b'), 60000, scope);
+    cache.get('a');
+    cache.set('c', response('c'), 60000, scope);
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  test('does not cache a response larger than a tenth of the size limit', () => {
+    const cache = createCache({ 'responseCache.maxSizeMb': 1 });
+
+    cache.set('large', response('x'.repeat(200 * 1024)), 60000, { servicePath: SERVICE });
+
+    expect(cache.get('large')).toBeUndefined();
+  });
+
+  test('invalidates reads of an entity set and reads mixing other entity sets', () => {
+    const cache = createCache();
+    cache.set('orders', response(1), 60000, { servicePath: SERVICE, entitySet: 'A_SalesOrder' });
+    cache.set('items', response(2), 60000, { servicePath: SERVICE, entitySet: 'A_SalesOrderItem' });
+    cache.set('expanded', response(3), 60000, { servicePath: SERVICE });
+    cache.set('other', response(4), 60000, { servicePath: '/sap/opu/odata/sap/OTHER/' });
+
+    cache.invalidate(SERVICE, 'A_SalesOrder');
+
+    expect(cache.get('orders')).toBeUndefined();
+    expect(cache.get('expanded')).toBeUndefined();
+    expect(cache.get('items')).toBeDefined();
+    expect(cache.get('other')).toBeDefined();
+
+    cache.invalidate(SERVICE);
+    expect(cache.get('items')).toBeUndefined();
+    expect(cache.getStats().invalidations).toBe(3);
+  });
+
+  test('does not store reads invalidated while they were in flight', () => {
+    const cache = createCache();
+    const orders = { servicePath: SERVICE, entitySet: 'A_SalesOrder' };
+    const items = { servicePath: SERVICE, entitySet: 'A_SalesOrderItem' };
+    const expanded = { servicePath: SERVICE };
+    const generations = [orders, items, expanded].map(scope => cache.getGeneration(scope));
+
+    cache.invalidate(SERVICE, 'A_SalesOrder');
+    cache.set('orders', response(1), 60000, orders, generations[0]);
+    cache.set('items', response(2), 60000, items, generations[1]);
+    cache.set('expanded', response(3), 60000, expanded, generations[2]);
+
+    expect(cache.get('orders')).toBeUndefined();
+    expect(cache.get('items')).toBeDefined();
+    expect(cache.get('expanded')).toBeUndefined();
+
+    const generation = cache.getGeneration(items);
+    cache.invalidate(SERVICE);
+    cache.set('items', response(4), 60000, items, generation);
+    expect(cache.get('items')).toBeUndefined();
+  });
+
+  test('flush removes all entries', () => {
+    const cache = createCache();
+    cache.set('orders', response(1), 60000, { servicePath: SERVICE });
+
+    expect(cache.flush()).toBe(1);
+    expect(cache.getStats()).toMatchObject({ entries: 0, sizeBytes: 0 });
+  });
+});
@@ -0,0 +1,628 @@
+/**
+ * Unit tests for SAPClient request helpers
+ */
+
+import { describe, test, expect, jest, afterEach, beforeEach } from '@jest/globals';
+import { executeHttpRequest, HttpRequestConfig, HttpResponse } from '@sap-cloud-sdk/http-client';
+import { SAPClient } from '../src/services/sap-client.js';
+import { SAPConcurrencyError, SAPRequestCancelledError } from '../src/utils/sap-errors.js';
+import {
+  createSAPClient,
+  createService,
+  httpError,
+  httpResponse,
+  mockRequests,
+  networkError,
+  TEST_DESTINATION,
+} from './helpers.js';
+
+jest.mock('@sap-cloud-sdk/http-client', () => ({ executeHttpRequest: jest.fn() }));
+
+const httpRequest = executeHttpRequest as jest.MockedFunction<typeof executeHttpRequest>;
+
+const SERVICE = '/sap/opu/odata/sap/API_SALES_ORDER_SRV/';
+
+interface CsrfInternals {
+  getCsrfToken(destination: unknown, cacheKey: string, url: string): Promise<{ token: string }>;
+  fetchCsrfToken: (...args: unknown[]) => Promise<{ token: string; fetchedAt: number }>;
+}
+
+interface RetryInternals {
+  getRetryDelay(error: unknown, retries: number): number | undefined;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  httpRequest.mockReset();
+});
+
+describe('SAPClient CSRF token cache', () => {
+  function createClient() {
+    const internals = createSAPClient() as unknown as CsrfInternals;
+    let fetched = 0;
+    internals.fetchCsrfToken = async () => ({ token: `token-${++fetched}`, fetchedAt: Date.now() });
+    return { internals, fetches: () => fetched };
+  }
+
+  test('reuses the token of a destination and user', async () => {
+    const { internals, fetches } = createClient();
+
+    const first = await internals.getCsrfToken({}, 'DEST|alice', SERVICE);
+    const second = await internals.getCsrfToken({}, 'DEST|alice', SERVICE);
+    const other = await internals.getCsrfToken({}, 'DEST|bob', SERVICE);
+
+    expect(first.token).toBe('token-1');
+    expect(second.token).toBe('token-1');
+    expect(other.token).toBe('token-2');
+    expect(fetches()).toBe(2);
+  });
+
+  test('refetches the token before the Gateway session times out', async () => {
+    const { internals, fetches } = createClient();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await internals.getCsrfToken({}, 'DEST|alice', SERVICE);
+    clock.mockReturnValue(now + 19 * 60 * 1000);
+    const fresh = await internals.getCsrfToken({}, 'DEST|alice', SERVICE);
+    clock.mockReturnValue(now + 21 * 60 * 1000);
+    const renewed = await internals.getCsrfToken({}, 'DEST|alice', SERVICE);
+
+    expect(fresh.token).toBe('token-1');
+    expect(renewed.token).toBe('token-2');
+    expect(fetches()).toBe(2);
+  });
+});
+
+describe('SAPClient retries', () => {
+  let client: SAPClient;
+
+  beforeEach(() => {
+    client = createSAPClient({ 'request.retryDelay': 1 });
+  });
+
+  test('retries reads on transient failures', async () => {
+    const sent = mockRequests(
+      httpError(503),
+      networkError('ECONNRESET'),
+      httpResponse(200, { d: { SalesOrder: '1000' } })
+    );
+
+    const response = await client.executeCRUDOperation('read', `${SERVICE}A_SalesOrder('1000')`);
+
+    expect(sent).toHaveLength(3);
+    expect(response.retries).toBe(2);
+    expect(response.data).toEqual({ d: { SalesOrder: '1000' } });
+  });
+
+  test('gives up after the configured number of retries', async () => {
+    client = createSAPClient({ 'request.retryDelay': 1, 'request.retries': 2 });
+    const sent = mockRequests(httpError(503));
+
+    await expect(client.executeCRUDOperation('read', `${SERVICE}A_SalesOrder`)).rejects.toThrow(
+      /^SAP API Error 503:.* \(after 2 retries\)$/
+    );
+    expect(sent).toHaveLength(3);
+  });
+
+  test('does not retry client errors', async () => {
+    const sent = mockRequests(httpError(400, { error: { code: 'SO/1', message: 'Bad filter' } }));
+
+    await expect(client.executeCRUDOperation('read', `${SERVICE}A_SalesOrder`)).rejects.toThrow(
+      'SAP API Error 400: Bad filter'
+    );
+    expect(sent).toHaveLength(1);
+  });
+
+  test('leaves writes without If-Match alone', async () => {
+    const sent = mockRequests(httpError(503));
+
+    await expect(
+      client.executeCRUDOperation('update', `${SERVICE}A_SalesOrder('1000')`, {}, undefined, {
+        servicePath: SERVICE,
+      })
+    ).rejects.toThrow('SAP API Error 503');
+    expect(sent).toHaveLength(1);
+  });
+
+  test.each(['update', 'delete'] as const)(
+    'retries %s requests guarded by If-Match',
+    async operation => {
+      const sent = mockRequests(httpError(503), httpResponse(204));
+
+      const response = await client.executeCRUDOperation(
+        operation,
+        `${SERVICE}A_SalesOrder('1000')`,
+        operation === 'update' ? { PurchaseOrderByCustomer: 'PO-1' } : undefined,
+        undefined,
+        { servicePath: SERVICE, ifMatch: 'W/"1"' }
+      );
+
+      expect(sent.map(request => [request.method, request.headers?.['If-Match']])).toEqual([
+        [operation === 'update' ? 'PATCH' : 'DELETE', 'W/"1"'],
+        [operation === 'update' ? 'PATCH' : 'DELETE', 'W/"1"'],
+      ]);
+      expect(response.retries).toBe(1);
+    }
+  );
+});
+
+describe('SAPClient.getRetryDelay', () => {
+  function retryDelay(error: unknown, retries: number, settings: Record<string, unknown> = {}) {
+    const client = createSAPClient({
+      'request.retryDelay': 500,
+      'request.retryMaxDelay': 3000,
+      ...settings,
+    });
+    return (client as unknown as RetryInternals).getRetryDelay(error, retries);
+  }
+
+  test('grows the backoff exponentially up to the maximum delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect([0, 1, 2, 3, 4].map(retries => retryDelay(httpError(503), retries))).toEqual([
+      500, 1000, 2000, 3000, 3000,
+    ]);
+  });
+
+  test('adds jitter of up to half the backoff', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(retryDelay(networkError('ETIMEDOUT'), 2)).toBe(1000);
+  });
+
+  test('waits as long as Retry-After in seconds says', () => {
+    expect(retryDelay(httpError(429, undefined, { 'Retry-After': '2' }), 0)).toBe(2000);
+  });
+
+  test('waits until the Retry-After HTTP date', () => {
+    const now = Date.parse('2024-03-01T10:00:00Z');
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const retryAfter = new Date(now + 2000).toUTCString();
+
+    expect(retryDelay(httpError(503, undefined, { 'retry-after': retryAfter }), 0)).toBe(2000);
+  });
+
+  test('fails right away when Retry-After exceeds the maximum delay', () => {
+    expect(retryDelay(httpError(503, undefined, { 'Retry-After': '60' }), 0)).toBeUndefined();
+  });
+
+  test.each([
+    ['a client error', httpError(404)],
+    ['a server error', httpError(500)],
+    ['an unknown host', networkError('ENOTFOUND')],
+  ])('does not retry %s', (_, error) => {
+    expect(retryDelay(error, 0)).toBeUndefined();
+  });
+});
+
+describe('SAPClient optimistic concurrency', () => {
+  const url = `${SERVICE}A_SalesOrder('1000')`;
+  const current = {
+    __metadata: { etag: 'W/"2"' },
+    SalesOrder: '1000',
+    PurchaseOrderByCustomer: 'PO-2',
+  };
+
+  test('extracts the ETag from V2 metadata, V4 annotations or the ETag header', () => {
+    const client = createSAPClient();
+
+    expect(client.extractETag({ data: { d: { __metadata: { etag: 'W/"1"' } } } })).toBe('W/"1"');
+    expect(client.extractETag({ data: { '@odata.etag': 'W/"2"' } })).toBe('W/"2"');
+    expect(client.extractETag({ data: {}, headers: { ETag: 'W/"3"' } })).toBe('W/"3"');
+    expect(client.extractETag({ data: {} })).toBeUndefined();
+  });
+
+  test('reports a failed If-Match precondition with the current version', async () => {
+    const sent = mockRequests(httpError(412), httpResponse(200, { d: current }));
+
+    const error = await createSAPClient()
+      .executeCRUDOperation(
+        'update',
+        `${url}?sap-client=100`,
+        { PurchaseOrderByCustomer: 'PO-1' },
+        undefined,
+        {
+          servicePath: SERVICE,
+          ifMatch: 'W/"1"',
+        }
+      )
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SAPConcurrencyError);
+    expect(error).toMatchObject({
+      sentEtag: 'W/"1"',
+      currentEtag: 'W/"2"',
+      currentVersion: current,
+    });
+    expect(
+      sent.map(request => [request.method, request.url, request.headers?.['If-Match']])
+    ).toEqual([
+      ['PATCH', `${url}?sap-client=100`, 'W/"1"'],
+      ['GET', url, undefined],
+    ]);
+  });
+
+  test('still reports the conflict when the current version cannot be read', async () => {
+    mockRequests(httpError(412), httpError(404));
+
+    const error = await createSAPClient()
+      .executeCRUDOperation('delete', url, undefined, undefined, {
+        servicePath: SERVICE,
+        ifMatch: 'W/"1"',
+      })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SAPConcurrencyError);
+    expect(error).toMatchObject({ sentEtag: 'W/"1"', currentVersion: undefined });
+  });
+});
+
+describe('SAPClient cancellation', () => {
+  const url = `${SERVICE}A_SalesOrder('1000')`;
+
+  /**
+   * Keep every request pending until its signal aborts, like a slow backend
+   */
+  function mockPendingRequests(): Array<AbortSignal | undefined> {
+    const signals: Array<AbortSignal | undefined> = [];
+    httpRequest.mockImplementation((_destination, request) => {
+      const { signal } = request as HttpRequestConfig;
+      signals.push(signal);
+      return new Promise((_, reject) =>
+        signal?.addEventListener('abort', () => reject(new Error('canceled')), { once: true })
+      );
+    });
+    return signals;
+  }
+
+  async function requestSent(signals: unknown[]) {
+    while (signals.length === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  test('passes the signal to the CSRF fetch and the write request', async () => {
+    const sent = mockRequests(httpResponse(204));
+    const cancellation = new AbortController();
+
+    await createSAPClient().executeCRUDOperation('update', url, {}, undefined, {
+      servicePath: SERVICE,
+      signal: cancellation.signal,
+    });
+
+    const csrfFetch = httpRequest.mock.calls[0][1] as HttpRequestConfig;
+    expect(csrfFetch.headers?.['X-CSRF-Token']).toBe('Fetch');
+    expect(csrfFetch.signal).toBe(cancellation.signal);
+    expect(sent[0].signal).toBe(cancellation.signal);
+  });
+
+  test('aborts the HTTP call of a read when the caller cancels', async () => {
+    const signals = mockPendingRequests();
+    const cancellation = new AbortController();
+
+    const read = createSAPClient().executeCRUDOperation('read', url, undefined, undefined, {
+      signal: cancellation.signal,
+    });
+    await requestSent(signals);
+    cancellation.abort();
+
+    await expect(read).rejects.toBeInstanceOf(SAPRequestCancelledError);
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  test('does not send a request that was cancelled before', async () => {
+    const cancellation = new AbortController();
+    cancellation.abort();
+
+    await expect(
+      createSAPClient().executeCRUDOperation('read', url, undefined, undefined, {
+        signal: cancellation.signal,
+      })
+    ).rejects.toBeInstanceOf(SAPRequestCancelledError);
+    expect(httpRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('SAPClient media', () => {
+  const url = `${SERVICE}A_SalesOrderAttachment('1')/$value`;
+  const MB = 1024 * 1024;
+
+  test('downloads the content as binary with its content type and ETag', async () => {
+    const sent = mockRequests(
+      httpResponse(200, Buffer.from('%PDF'), { 'content-type': 'application/pdf', etag: 'W/"1"' })
+    );
+
+    const media = await createSAPClient({ 'media.maxDownloadSizeMb': 2 }).downloadMedia(url);
+
+    expect(media).toMatchObject({ contentType: 'application/pdf', etag: 'W/"1"' });
+    expect(media.content.toString()).toBe('%PDF');
+    expect(sent[0]).toMatchObject({
+      headers: { Accept: '*/*' },
+      responseType: 'arraybuffer',
+      maxContentLength: 2 * MB,
+    });
+  });
+
+  test('falls back to application/octet-stream without a content type', async () => {
+    mockRequests(httpResponse(200, Buffer.from([0xff])));
+
+    const media = await createSAPClient().downloadMedia(url);
+
+    expect(media.contentType).toBe('application/octet-stream');
+  });
+
+  test('rejects a download above the size limit', async () => {
+    mockRequests(
+      Object.assign(new Error(`maxContentLength size of ${2 * MB} exceeded`), {
+        code: 'ERR_BAD_RESPONSE',
+      })
+    );
+
+    await expect(
+      createSAPClient({ 'media.maxDownloadSizeMb': 2 }).downloadMedia(url)
+    ).rejects.toThrow(
+      'Media content exceeds the download limit of 2 MB (MEDIA_MAX_DOWNLOAD_SIZE_MB)'
+    );
+  });
+
+  test('uploads the content with its content type and the file name as Slug', async () => {
+    const sent = mockRequests(httpResponse(201));
+    const content = Buffer.from('%PDF');
+
+    await createSAPClient().uploadMedia(
+      'POST',
+      `${SERVICE}A_SalesOrderAttachment`,
+      content,
+      'application/pdf',
+      undefined,
+      {
+        servicePath: SERVICE,
+        slug: 'Auftragsbestätigung.pdf',
+      }
+    );
+
+    expect(sent[0]).toMatchObject({
+      method: 'POST',
+      data: content,
+      headers: {
+        'Content-Type': 'application/pdf',
+        Slug: 'Auftragsbest%C3%A4tigung.pdf',
+        'X-CSRF-Token': 'token',
+      },
+    });
+  });
+
+  test('rejects an upload above the size limit before sending it', async () => {
+    const client = createSAPClient({ 'media.maxUploadSizeMb': 1 });
+
+    await expect(client.uploadMedia('PUT', url, Buffer.alloc(MB + 1), 'image/png')).rejects.toThrow(
+      `Media content of ${MB + 1} bytes exceeds the upload limit of 1 MB (MEDIA_MAX_UPLOAD_SIZE_MB)`
+    );
+    expect(httpRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('SAPClient response cache', () => {
+  const url = `${SERVICE}A_SalesOrder('1000')`;
+  const cache = { ttl: 60000 };
+
+  test('does not store a read that a write invalidated while it was in flight', async () => {
+    const client = createSAPClient({ 'responseCache.enabled': true });
+    let respond: (response: HttpResponse) => void = () => undefined;
+    httpRequest.mockImplementation(async (_destination, request) => {
+      const { method, headers } = request as HttpRequestConfig;
+      if (headers?.['X-CSRF-Token'] === 'Fetch') {
+        return httpResponse(200, undefined, { 'x-csrf-token': 'token' });
+      }
+      if (method === 'GET') {
+        return new Promise<HttpResponse>(resolve => (respond = resolve));
+      }
+      return httpResponse(204);
+    });
+
+    const read = client.executeCRUDOperation('read', url, undefined, undefined, {
+      servicePath: SERVICE,
+      cache,
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    await client.executeCRUDOperation('update', url, { SalesOrderType: 'OR' }, undefined, {
+      servicePath: SERVICE,
+    });
+    respond(httpResponse(200, { d: { SalesOrder: '1000', SalesOrderType: 'TA' } }));
+    await read;
+
+    httpRequest.mockResolvedValue(
+      httpResponse(200, { d: { SalesOrder: '1000', SalesOrderType: 'OR' } })
+    );
+    const reread = await client.executeCRUDOperation('read', url, undefined, undefined, {
+      servicePath: SERVICE,
+      cache,
+    });
+
+    expect(reread.cachedAt).toBeUndefined();
+    expect(reread.data).toMatchObject({ d: { SalesOrderType: 'OR' } });
+  });
+});
+
+describe('SAPClient destination', () => {
+  test('sends requests to the destination of the operation', async () => {
+    mockRequests(httpResponse(200, { d: { results: [] } }));
+
+    await createSAPClient().executeCRUDOperation('read', `${SERVICE}A_SalesOrder`);
+
+    expect(httpRequest.mock.calls[0][0]).toBe(TEST_DESTINATION);
+  });
+});
+
+describe('SAPClient circuit breaker', () => {
+  /**
+   * Answer the CSRF token fetch (HEAD and GET) with the given outcome
+   */
+  function mockCsrfFetch(outcome: () => unknown) {
+    httpRequest.mockImplementation(async () => {
+      const response = outcome();
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response as ReturnType<typeof httpResponse>;
+    });
+  }
+
+  async function create(client: SAPClient) {
+    return client.executeCRUDOperation('create', `${SERVICE}A_SalesOrder`, {}, undefined, {
+      servicePath: SERVICE,
+    });
+  }
+
+  function circuits(client: SAPClient) {
+    return (
+      client as unknown as { circuitBreaker: { getStatus(): Array<{ state: string }> } }
+    ).circuitBreaker.getStatus();
+  }
+
+  test.each([
+    ['rejected credentials', () => httpError(401), `from ${SERVICE} (HTTP 401)`],
+    ['a response without token', () => httpResponse(200), `from ${SERVICE}`],
+  ])('does not count a CSRF fetch with %s as outage', async (_, outcome, message) => {
+    const client = createSAPClient({ 'circuitBreaker.failureThreshold': 1 });
+    mockCsrfFetch(outcome);
+
+    await expect(create(client)).rejects.toThrow(`Failed to fetch CSRF token ${message}`);
+    await expect(create(client)).rejects.toThrow('Failed to fetch CSRF token');
+    expect(circuits(client)).toEqual([]);
+  });
+
+  test.each([
+    ['a network error', () => networkError('ECONNREFUSED')],
+    ['an unavailable backend', () => httpError(503)],
+  ])('opens on a CSRF fetch failing with %s', async (_, outcome) => {
+    const client = createSAPClient({ 'circuitBreaker.failureThreshold': 1 });
+    mockCsrfFetch(outcome);
+
+    await expect(create(client)).rejects.toThrow('Failed to fetch CSRF token');
+    expect(circuits(client)[0].state).toBe('open');
+    await expect(create(client)).rejects.toThrow('is unavailable, retry after');
+  });
+});
+
+describe('SAPClient.normalizeResponse', () => {
+  const metadata = createService().metadata!;
+  const order = metadata.entityTypes.find(type => type.name === 'A_SalesOrderType')!;
+  const options = { entityType: order, entityTypes: metadata.entityTypes };
+
+  test('unwraps a V2 collection and drops __metadata and deferred navigation links', () => {
+    const data = {
+      d: {
+        __count: '2',
+        results: [
+          {
+            __metadata: {
+              uri: `${SERVICE}A_SalesOrder('1')`,
+              type: 'API_SALES_ORDER_SRV.A_SalesOrderType',
+            },
+            SalesOrder: '1',
+            SalesOrderType: 'OR',
+            to_Item: { __deferred: { uri: `${SERVICE}A_SalesOrder('1')/to_Item` } },
+          },
+          { __metadata: { uri: `${SERVICE}A_SalesOrder('2')` }, SalesOrder: '2' },
+        ],
+      },
+    };
+
+    expect(createSAPClient().normalizeResponse(data, options)).toEqual({
+      items: [{ SalesOrder: '1', SalesOrderType: 'OR' }, { SalesOrder: '2' }],
+      count: 2,
+      nextCursor: undefined,
+      etag: undefined,
+    });
+  });
+
+  test('converts V2 JSON dates to ISO 8601 unless the property is not a date', () => {
+    const data = {
+      d: {
+        SalesOrder: '1',
+        SalesOrderType: '/Date(0)/',
+        CreationDate: '/Date(1709287200000)/',
+        LastChangeDateTime: '/Date(1709287200000+0060)/',
+      },
+    };
+
+    expect(createSAPClient().normalizeResponse(data, options).items).toEqual([
+      {
+        SalesOrder: '1',
+        SalesOrderType: '/Date(0)/',
+        CreationDate: '2024-03-01T10:00:00.000Z',
+        LastChangeDateTime: '2024-03-01T10:00:00.000Z',
+      },
+    ]);
+  });
+
+  test('turns Edm.Decimal strings into numbers only when a double holds the exact value', () => {
+    const amounts = ['1500.250', '-0.5', '12345678901234567.891'].map(
+      amount =>
+        createSAPClient().normalizeResponse({ d: { TotalNetAmount: amount } }, options).items[0]
+          .TotalNetAmount
+    );
+
+    expect(amounts).toEqual([1500.25, -0.5, '12345678901234567.891']);
+  });
+
+  test('normalizes expanded navigation properties with their target type', () => {
+    const data = {
+      d: {
+        SalesOrder: '1',
+        to_Item: {
+          results: [
+            {
+              __metadata: { uri: `${SERVICE}A_SalesOrderItem(SalesOrder='1',SalesOrderItem='10')` },
+              SalesOrderItem: '10',
+              NetAmount: '100.000',
+              to_ScheduleLine: { __deferred: { uri: 'to_ScheduleLine' } },
+            },
+          ],
+        },
+      },
+    };
+
+    expect(createSAPClient().normalizeResponse(data, options).items).toEqual([
+      { SalesOrder: '1', to_Item: [{ SalesOrderItem: '10', NetAmount: 100 }] },
+    ]);
+  });
+
+  test('unwraps a V4 collection and drops @odata annotations', () => {
+    const data = {
+      '@odata.context': '$metadata#A_SalesOrder',
+      '@odata.count': 5,
+      value: [
+        {
+          '@odata.etag': 'W/"1"',
+          SalesOrder: '1',
+          'TotalNetAmount@odata.type': '#Decimal',
+          TotalNetAmount: 1500.25,
+        },
+      ],
+    };
+
+    expect(createSAPClient().normalizeResponse(data, options)).toEqual({
+      items: [{ SalesOrder: '1', TotalNetAmount: 1500.25 }],
+      count: 5,
+      nextCursor: undefined,
+      etag: undefined,
+    });
+  });
+
+  test('wraps a single entity and takes count, cursor and ETag from the options', () => {
+    const data = { d: { __metadata: { etag: 'W/"1"' }, SalesOrder: '1' } };
+
+    expect(
+      createSAPClient().normalizeResponse(data, {
+        ...options,
+        count: 12,
+        nextCursor: 'cursor',
+        etag: 'W/"1"',
+      })
+    ).toEqual({ items: [{ SalesOrder: '1' }], count: 12, nextCursor: 'cursor', etag: 'W/"1"' });
+    expect(createSAPClient().normalizeResponse({ d: {} }).items).toEqual([]);
+  });
+});
@@ -0,0 +1,713 @@
+/**
+ * Unit tests for SAPDiscoveryService: $metadata parsing, loading and revalidation
+ */
+
+import { describe, test, expect, jest, afterEach, beforeEach } from '@jest/globals';
+import { executeHttpRequest } from '@sap-cloud-sdk/http-client';
+import { SAPDiscoveryService } from '../src/services/sap-discovery.js';
+import { SAPClient } from '../src/services/sap-client.js';
+import { Logger } from '../src/utils/logger.js';
+import { CachedServiceMetadata, MetadataCache } from '../src/utils/metadata-cache.js';
+import { ODataService } from '../src/types/sap-types.js';
+import {
+  createConfig,
+  createService,
+  httpError,
+  httpResponse,
+  mockRequests,
+  networkError,
+  parseMetadata,
+  SALES_ORDER_SCHEMA,
+  TEST_DESTINATION,
+  v2Metadata,
+  v4Metadata,
+} from './helpers.js';
+
+jest.mock('@sap-cloud-sdk/http-client', () => ({ executeHttpRequest: jest.fn() }));
+
+describe('SAPDiscoveryService.parseMetadata', () => {
+  describe('V4 entity set capabilities', () => {
+    const schema = `
+      <EntityType Name="OrderType">
+        <Key><PropertyRef Name="OrderID"/></Key>
+        <Property Name="OrderID" Type="Edm.String" Nullable="false" MaxLength="10"/>
+      </EntityType>
+      <EntityType Name="LogType">
+        <Key><PropertyRef Name="LogID"/></Key>
+        <Property Name="LogID" Type="Edm.Guid" Nullable="false"/>
+      </EntityType>
+      <EntityType Name="ParameterType">
+        <Property Name="Value" Type="Edm.String"/>
+      </EntityType>
+      <EntityContainer Name="Container">
+        <EntitySet Name="Order" EntityType="SAP__self.OrderType"/>
+        <EntitySet Name="Log" EntityType="SAP__self.LogType"/>
+      </EntityContainer>
+      <Annotations Target="SAP__self.Container/Log">
+        <Annotation Term="SAP__capabilities.InsertRestrictions">
+          <Record><PropertyValue Property="Insertable" Bool="false"/></Record>
+        </Annotation>
+        <Annotation Term="SAP__capabilities.UpdateRestrictions">
+          <Record><PropertyValue Property="Updatable" Bool="false"/></Record>
+        </Annotation>
+        <Annotation Term="SAP__capabilities.DeleteRestrictions">
+          <Record><PropertyValue Property="Deletable" Bool="true"/></Record>
+        </Annotation>
+      </Annotations>`;
+
+    test('entity sets are writable without restrictions', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const order = metadata.entityTypes.find(entityType => entityType.name === 'OrderType')!;
+
+      expect(order.entitySet).toBe('Order');
+      expect(order.creatable).toBe(true);
+      expect(order.updatable).toBe(true);
+      expect(order.deletable).toBe(true);
+    });
+
+    test('Capabilities restrictions on the entity set apply', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const log = metadata.entityTypes.find(entityType => entityType.name === 'LogType')!;
+
+      expect(log.creatable).toBe(false);
+      expect(log.updatable).toBe(false);
+      expect(log.deletable).toBe(true);
+    });
+
+    test('entity types without entity set are not writable', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const parameter = metadata.entityTypes.find(
+        entityType => entityType.name === 'ParameterType'
+      )!;
+
+      expect(parameter.creatable).toBe(false);
+      expect(parameter.updatable).toBe(false);
+      expect(parameter.deletable).toBe(false);
+    });
+  });
+
+  describe('V4 operations', () => {
+    const schema = `
+      <EntityType Name="ProductType">
+        <Key><PropertyRef Name="Product"/></Key>
+        <Property Name="Product" Type="Edm.String" Nullable="false"/>
+      </EntityType>
+      <ComplexType Name="PriceResult">
+        <Property Name="Price" Type="Edm.Decimal" Precision="15" Scale="2"/>
+      </ComplexType>
+      <Action Name="copyProduct" IsBound="true">
+        <Parameter Name="_it" Type="SAP__self.ProductType" Nullable="false"/>
+        <Parameter Name="NewProduct" Type="Edm.String"/>
+        <ReturnType Type="SAP__self.ProductType"/>
+      </Action>
+      <Function Name="getPrices" IsBound="true">
+        <Parameter Name="_it" Type="Collection(SAP__self.ProductType)"/>
+        <ReturnType Type="Collection(SAP__self.PriceResult)"/>
+      </Function>
+      <Function Name="getDefaultPrice">
+        <Parameter Name="Currency" Type="Edm.String" Nullable="false"/>
+        <ReturnType Type="SAP__self.PriceResult"/>
+      </Function>
+      <EntityContainer Name="Container">
+        <EntitySet Name="Product" EntityType="SAP__self.ProductType"/>
+        <FunctionImport Name="getDefaultPrice" Function="SAP__self.getDefaultPrice"/>
+      </EntityContainer>`;
+    const namespace = 'com.sap.gateway.srvd.zui_order.v0001';
+
+    test('bound operations declared with the schema alias match their entity type', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const copy = metadata.operations.find(operation => operation.name === 'copyProduct')!;
+      const prices = metadata.operations.find(operation => operation.name === 'getPrices')!;
+
+      expect(copy.kind).toBe('action');
+      expect(copy.httpMethod).toBe('POST');
+      expect(copy.entitySet).toBe('Product');
+      expect(copy.binding).toEqual({
+        parameterName: '_it',
+        entityType: `${namespace}.ProductType`,
+        isCollection: false,
+      });
+      expect(copy.parameters).toEqual([{ name: 'NewProduct', type: 'Edm.String', nullable: true }]);
+      expect(copy.returnType).toBe(`${namespace}.ProductType`);
+
+      expect(prices.kind).toBe('function');
+      expect(prices.binding?.isCollection).toBe(true);
+      expect(prices.returnType).toBe(`Collection(${namespace}.PriceResult)`);
+    });
+
+    test('unbound operations are listed through their import', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const operation = metadata.operations.find(entry => entry.name === 'getDefaultPrice')!;
+
+      expect(operation.binding).toBeUndefined();
+      expect(operation.httpMethod).toBe('GET');
+      expect(operation.parameters).toEqual([
+        { name: 'Currency', type: 'Edm.String', nullable: false },
+      ]);
+    });
+  });
+
+  describe('V2 associations and complex types', () => {
+    const schema = `
+      <EntityType Name="A_SalesOrderType">
+        <Key><PropertyRef Name="SalesOrder"/></Key>
+        <Property Name="SalesOrder" Type="Edm.String" Nullable="false" MaxLength="10"/>
+        <Property Name="ShipTo" Type="API_SALES_ORDER_SRV.Address" Nullable="false"/>
+        <NavigationProperty Name="to_Item" Relationship="API_SALES_ORDER_SRV.assoc_Order_Item" FromRole="FromRole_Order" ToRole="ToRole_Item"/>
+      </EntityType>
+      <EntityType Name="A_SalesOrderItemType">
+        <Key>
+          <PropertyRef Name="SalesOrder"/>
+          <PropertyRef Name="SalesOrderItem"/>
+        </Key>
+        <Property Name="SalesOrder" Type="Edm.String" Nullable="false" MaxLength="10"/>
+        <Property Name="SalesOrderItem" Type="Edm.String" Nullable="false" MaxLength="6"/>
+        <NavigationProperty Name="to_SalesOrder" Relationship="API_SALES_ORDER_SRV.assoc_Order_Item" FromRole="ToRole_Item" ToRole="FromRole_Order"/>
+      </EntityType>
+      <ComplexType Name="Address">
+        <Property Name="City" Type="Edm.String" MaxLength="40"/>
+      </ComplexType>
+      <Association Name="assoc_Order_Item">
+        <End Type="API_SALES_ORDER_SRV.A_SalesOrderType" Multiplicity="1" Role="FromRole_Order"/>
+        <End Type="API_SALES_ORDER_SRV.A_SalesOrderItemType" Multiplicity="*" Role="ToRole_Item"/>
+        <ReferentialConstraint>
+          <Principal Role="FromRole_Order"><PropertyRef Name="SalesOrder"/></Principal>
+          <Dependent Role="ToRole_Item"><PropertyRef Name="SalesOrder"/></Dependent>
+        </ReferentialConstraint>
+      </Association>
+      <EntityContainer Name="API_SALES_ORDER_SRV_Entities" m:IsDefaultEntityContainer="true">
+        <EntitySet Name="A_SalesOrder" EntityType="API_SALES_ORDER_SRV.A_SalesOrderType"/>
+        <EntitySet Name="A_SalesOrderItem" EntityType="API_SALES_ORDER_SRV.A_SalesOrderItemType"/>
+        <AssociationSet Name="assoc_Order_Item_Set" Association="API_SALES_ORDER_SRV.assoc_Order_Item">
+          <End EntitySet="A_SalesOrder" Role="FromRole_Order"/>
+          <End EntitySet="A_SalesOrderItem" Role="ToRole_Item"/>
+        </AssociationSet>
+      </EntityContainer>`;
+
+    test('resolves navigation targets and constraints from both ends of the association', () => {
+      const metadata = parseMetadata(v2Metadata(schema), 'v2');
+      const order = metadata.entityTypes.find(type => type.name === 'A_SalesOrderType')!;
+      const item = metadata.entityTypes.find(type => type.name === 'A_SalesOrderItemType')!;
+
+      expect(order.navigationProperties[0]).toEqual({
+        name: 'to_Item',
+        type: 'API_SALES_ORDER_SRV.A_SalesOrderItemType',
+        multiplicity: '*',
+        referentialConstraints: [{ property: 'SalesOrder', referencedProperty: 'SalesOrder' }],
+        relationship: 'API_SALES_ORDER_SRV.assoc_Order_Item',
+      });
+      expect(item.navigationProperties[0]).toMatchObject({
+        type: 'API_SALES_ORDER_SRV.A_SalesOrderType',
+        multiplicity: '1',
+      });
+      expect(metadata.associationSets).toEqual([
+        {
+          name: 'assoc_Order_Item_Set',
+          association: 'API_SALES_ORDER_SRV.assoc_Order_Item',
+          ends: [
+            { role: 'FromRole_Order', entitySet: 'A_SalesOrder' },
+            { role: 'ToRole_Item', entitySet: 'A_SalesOrderItem' },
+          ],
+        },
+      ]);
+    });
+
+    test('lists complex types used by properties', () => {
+      const metadata = parseMetadata(v2Metadata(schema), 'v2');
+      const order = metadata.entityTypes.find(type => type.name === 'A_SalesOrderType')!;
+
+      expect(order.properties.find(prop => prop.name === 'ShipTo')?.type).toBe(
+        'API_SALES_ORDER_SRV.Address'
+      );
+      expect(metadata.complexTypes).toEqual([
+        expect.objectContaining({
+          name: 'Address',
+          namespace: 'API_SALES_ORDER_SRV',
+          properties: [expect.objectContaining({ name: 'City', maxLength: '40' })],
+        }),
+      ]);
+    });
+  });
+
+  describe('V4 complex types, enum types and inheritance', () => {
+    const namespace = 'com.sap.gateway.srvd.zui_order.v0001';
+    const schema = `
+      <EnumType Name="Status" UnderlyingType="Edm.Byte">
+        <Member Name="Open" Value="0"/>
+        <Member Name="Closed" Value="1"/>
+      </EnumType>
+      <EnumType Name="Usage" IsFlags="true">
+        <Member Name="Billing"/>
+        <Member Name="Shipping"/>
+      </EnumType>
+      <ComplexType Name="BaseAddress">
+        <Property Name="City" Type="Edm.String"/>
+      </ComplexType>
+      <ComplexType Name="Address" BaseType="SAP__self.BaseAddress">
+        <Property Name="Usage" Type="SAP__self.Usage"/>
+      </ComplexType>
+      <EntityType Name="DocumentType" Abstract="true">
+        <Key><PropertyRef Name="Document"/></Key>
+        <Property Name="Document" Type="Edm.String" Nullable="false"/>
+      </EntityType>
+      <EntityType Name="OrderType" BaseType="SAP__self.DocumentType">
+        <Property Name="Status" Type="SAP__self.Status"/>
+        <Property Name="Addresses" Type="Collection(SAP__self.Address)"/>
+        <NavigationProperty Name="_Item" Type="Collection(SAP__self.ItemType)" Partner="_Order">
+          <ReferentialConstraint Property="Document" ReferencedProperty="Document"/>
+        </NavigationProperty>
+      </EntityType>
+      <EntityType Name="ItemType">
+        <Key><PropertyRef Name="Document"/><PropertyRef Name="Item"/></Key>
+        <Property Name="Document" Type="Edm.String" Nullable="false"/>
+        <Property Name="Item" Type="Edm.String" Nullable="false"/>
+        <NavigationProperty Name="_Order" Type="SAP__self.OrderType" Nullable="false" Partner="_Item"/>
+      </EntityType>
+      <EntityContainer Name="Container">
+        <EntitySet Name="Order" EntityType="SAP__self.OrderType"/>
+        <EntitySet Name="Item" EntityType="SAP__self.ItemType"/>
+      </EntityContainer>`;
+
+    test('reads enum types with explicit and implicit member values', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+
+      expect(metadata.enumTypes).toEqual([
+        {
+          name: 'Status',
+          namespace,
+          underlyingType: 'Edm.Byte',
+          isFlags: false,
+          members: [
+            { name: 'Open', value: 0 },
+            { name: 'Closed', value: 1 },
+          ],
+        },
+        {
+          name: 'Usage',
+          namespace,
+          underlyingType: 'Edm.Int32',
+          isFlags: true,
+          members: [
+            { name: 'Billing', value: 0 },
+            { name: 'Shipping', value: 1 },
+          ],
+        },
+      ]);
+    });
+
+    test('qualifies aliased types and inherits keys and properties of the base type', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const order = metadata.entityTypes.find(type => type.name === 'OrderType')!;
+      const address = metadata.complexTypes.find(type => type.name === 'Address')!;
+
+      expect(order.baseType).toBe(`${namespace}.DocumentType`);
+      expect(order.keys).toEqual(['Document']);
+      expect(order.properties.map(prop => [prop.name, prop.type])).toEqual([
+        ['Document', 'Edm.String'],
+        ['Status', `${namespace}.Status`],
+        ['Addresses', `Collection(${namespace}.Address)`],
+      ]);
+      expect(address.properties.map(prop => prop.name)).toEqual(['City', 'Usage']);
+    });
+
+    test('reads navigation cardinality, partner and referential constraints', () => {
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const order = metadata.entityTypes.find(type => type.name === 'OrderType')!;
+      const item = metadata.entityTypes.find(type => type.name === 'ItemType')!;
+
+      expect(order.navigationProperties[0]).toEqual({
+        name: '_Item',
+        type: `${namespace}.ItemType`,
+        multiplicity: '*',
+        referentialConstraints: [{ property: 'Document', referencedProperty: 'Document' }],
+        partner: '_Order',
+        containsTarget: undefined,
+      });
+      expect(item.navigationProperties[0]).toMatchObject({
+        type: `${namespace}.OrderType`,
+        multiplicity: '1',
+      });
+    });
+  });
+
+  describe('drafts', () => {
+    test('reads the lifecycle actions of a V4 DraftRoot annotation', () => {
+      const schema = `
+        <EntityType Name="OrderType">
+          <Key>
+            <PropertyRef Name="OrderUUID"/>
+            <PropertyRef Name="IsActiveEntity"/>
+          </Key>
+          <Property Name="OrderUUID" Type="Edm.Guid" Nullable="false"/>
+          <Property Name="IsActiveEntity" Type="Edm.Boolean" Nullable="false"/>
+        </EntityType>
+        <EntityType Name="ItemType">
+          <Key>
+            <PropertyRef Name="ItemUUID"/>
+            <PropertyRef Name="IsActiveEntity"/>
+          </Key>
+          <Property Name="ItemUUID" Type="Edm.Guid" Nullable="false"/>
+          <Property Name="IsActiveEntity" Type="Edm.Boolean" Nullable="false"/>
+        </EntityType>
+        <Action Name="Edit" IsBound="true">
+          <Parameter Name="_it" Type="SAP__self.OrderType" Nullable="false"/>
+          <Parameter Name="PreserveChanges" Type="Edm.Boolean"/>
+          <ReturnType Type="SAP__self.OrderType"/>
+        </Action>
+        <Action Name="Activate" IsBound="true">
+          <Parameter Name="_it" Type="SAP__self.OrderType" Nullable="false"/>
+          <ReturnType Type="SAP__self.OrderType"/>
+        </Action>
+        <EntityContainer Name="Container">
+          <EntitySet Name="Order" EntityType="SAP__self.OrderType"/>
+          <EntitySet Name="Item" EntityType="SAP__self.ItemType"/>
+        </EntityContainer>
+        <Annotations Target="SAP__self.Container/Order">
+          <Annotation Term="SAP__common.DraftRoot">
+            <Record>
+              <PropertyValue Property="ActivationAction" String="com.sap.gateway.srvd.zui_order.v0001.Activate"/>
+              <PropertyValue Property="EditAction" String="com.sap.gateway.srvd.zui_order.v0001.Edit"/>
+            </Record>
+          </Annotation>
+        </Annotations>`;
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const order = metadata.entityTypes.find(type => type.name === 'OrderType')!;
+      const item = metadata.entityTypes.find(type => type.name === 'ItemType')!;
+
+      expect(order.draft).toEqual({
+        root: true,
+        editAction: 'Edit',
+        activationAction: 'Activate',
+        preparationAction: undefined,
+      });
+      expect(item.draft).toEqual({ root: false });
+    });
+
+    test('falls back to the <EntitySet>Edit naming of V2 function imports', () => {
+      const schema = `
+        <EntityType Name="C_PurchaseReqType">
+          <Key>
+            <PropertyRef Name="PurchaseRequisition"/>
+            <PropertyRef Name="DraftUUID"/>
+            <PropertyRef Name="IsActiveEntity"/>
+          </Key>
+          <Property Name="PurchaseRequisition" Type="Edm.String" Nullable="false"/>
+          <Property Name="DraftUUID" Type="Edm.Guid" Nullable="false"/>
+          <Property Name="IsActiveEntity" Type="Edm.Boolean" Nullable="false"/>
+        </EntityType>
+        <EntityType Name="C_SupplierType">
+          <Key><PropertyRef Name="Supplier"/></Key>
+          <Property Name="Supplier" Type="Edm.String" Nullable="false"/>
+        </EntityType>
+        <EntityContainer Name="C_PURCHASEREQ_SRV_Entities" m:IsDefaultEntityContainer="true">
+          <EntitySet Name="C_PurchaseReq" EntityType="API_SALES_ORDER_SRV.C_PurchaseReqType"/>
+          <EntitySet Name="C_Supplier" EntityType="API_SALES_ORDER_SRV.C_SupplierType"/>
+          <FunctionImport Name="C_PurchaseReqEdit" ReturnType="API_SALES_ORDER_SRV.C_PurchaseReqType" EntitySet="C_PurchaseReq" m:HttpMethod="POST">
+            <Parameter Name="PurchaseRequisition" Type="Edm.String" Mode="In"/>
+          </FunctionImport>
+          <FunctionImport Name="C_PurchaseReqActivation" ReturnType="API_SALES_ORDER_SRV.C_PurchaseReqType" EntitySet="C_PurchaseReq" m:HttpMethod="POST">
+            <Parameter Name="PurchaseRequisition" Type="Edm.String" Mode="In"/>
+          </FunctionImport>
+          <FunctionImport Name="C_PurchaseReqPreparation" ReturnType="API_SALES_ORDER_SRV.C_PurchaseReqType" EntitySet="C_PurchaseReq" m:HttpMethod="POST">
+            <Parameter Name="PurchaseRequisition" Type="Edm.String" Mode="In"/>
+          </FunctionImport>
+        </EntityContainer>`;
+      const metadata = parseMetadata(v2Metadata(schema), 'v2');
+      const requisition = metadata.entityTypes.find(type => type.name === 'C_PurchaseReqType')!;
+      const supplier = metadata.entityTypes.find(type => type.name === 'C_SupplierType')!;
+
+      expect(requisition.draft).toEqual({
+        root: true,
+        editAction: 'C_PurchaseReqEdit',
+        activationAction: 'C_PurchaseReqActivation',
+        preparationAction: 'C_PurchaseReqPreparation',
+      });
+      expect(supplier.draft).toBeUndefined();
+    });
+  });
+
+  describe('annotations', () => {
+    test('reads V2 sap:* attributes of entity sets and properties', () => {
+      const schema = `
+        <EntityType Name="A_SalesOrderType" sap:label="Sales Order">
+          <Key><PropertyRef Name="SalesOrder"/></Key>
+          <Property Name="SalesOrder" Type="Edm.String" Nullable="false" sap:label="Sales Order" sap:updatable="false"/>
+          <Property Name="TotalNetAmount" Type="Edm.Decimal" Precision="16" Scale="3" sap:unit="TransactionCurrency" sap:filterable="false" sap:sortable="false" sap:creatable="false"/>
+          <Property Name="TransactionCurrency" Type="Edm.String" MaxLength="5" sap:required-in-filter="true" sap:display-format="UpperCase" sap:text="CurrencyName"/>
+        </EntityType>
+        <EntityContainer Name="API_SALES_ORDER_SRV_Entities" m:IsDefaultEntityContainer="true">
+          <EntitySet Name="A_SalesOrder" EntityType="API_SALES_ORDER_SRV.A_SalesOrderType" sap:creatable="true" sap:updatable="true" sap:deletable="false" sap:requires-filter="true"/>
+        </EntityContainer>`;
+      const metadata = parseMetadata(v2Metadata(schema), 'v2');
+      const order = metadata.entityTypes[0];
+      const [salesOrder, amount, currency] = order.properties;
+
+      expect(order).toMatchObject({
+        label: 'Sales Order',
+        requiresFilter: true,
+        creatable: true,
+        updatable: true,
+        deletable: false,
+      });
+      expect(salesOrder).toMatchObject({ label: 'Sales Order', creatable: true, updatable: false });
+      expect(amount).toMatchObject({
+        precision: 16,
+        scale: 3,
+        unit: 'TransactionCurrency',
+        filterable: false,
+        sortable: false,
+        creatable: false,
+      });
+      expect(currency).toMatchObject({
+        requiredInFilter: true,
+        displayFormat: 'UpperCase',
+        text: 'CurrencyName',
+        filterable: true,
+      });
+    });
+
+    test('reads V4 vocabulary annotations of entity types, entity sets and properties', () => {
+      const schema = `
+        <EntityType Name="OrderType">
+          <Key><PropertyRef Name="OrderID"/></Key>
+          <Property Name="OrderID" Type="Edm.String" Nullable="false"/>
+          <Property Name="Customer" Type="Edm.String"/>
+          <Property Name="NetAmount" Type="Edm.Decimal" Scale="variable"/>
+          <Property Name="Currency" Type="Edm.String"/>
+          <Property Name="CreatedAt" Type="Edm.DateTimeOffset"/>
+        </EntityType>
+        <EntityContainer Name="Container">
+          <EntitySet Name="Order" EntityType="SAP__self.OrderType"/>
+        </EntityContainer>
+        <Annotations Target="SAP__self.OrderType">
+          <Annotation Term="SAP__common.Label" String="Order"/>
+          <Annotation Term="com.sap.vocabularies.UI.v1.LineItem">
+            <Collection>
+              <Record Type="com.sap.vocabularies.UI.v1.DataField">
+                <PropertyValue Property="Value" Path="OrderID"/>
+              </Record>
+              <Record Type="com.sap.vocabularies.UI.v1.DataFieldForAction">
+                <PropertyValue Property="Action" String="SAP__self.approve"/>
+              </Record>
+              <Record Type="com.sap.vocabularies.UI.v1.DataField">
+                <PropertyValue Property="Value" Path="NetAmount"/>
+              </Record>
+            </Collection>
+          </Annotation>
+          <Annotation Term="com.sap.vocabularies.UI.v1.LineItem" Qualifier="Compact">
+            <Collection>
+              <Record Type="com.sap.vocabularies.UI.v1.DataField">
+                <PropertyValue Property="Value" Path="Customer"/>
+              </Record>
+            </Collection>
+          </Annotation>
+          <Annotation Term="com.sap.vocabularies.UI.v1.SelectionFields">
+            <Collection>
+              <PropertyPath>Customer</PropertyPath>
+              <PropertyPath>CreatedAt</PropertyPath>
+            </Collection>
+          </Annotation>
+        </Annotations>
+        <Annotations Target="SAP__self.OrderType/Customer">
+          <Annotation Term="SAP__common.Label" String="Sold-To Party"/>
+          <Annotation Term="SAP__common.Text" Path="CustomerName"/>
+        </Annotations>
+        <Annotations Target="SAP__self.OrderType/NetAmount">
+          <Annotation Term="Org.OData.Measures.V1.ISOCurrency" Path="Currency"/>
+        </Annotations>
+        <Annotations Target="SAP__self.OrderType/OrderID">
+          <Annotation Term="Org.OData.Core.V1.Immutable"/>
+        </Annotations>
+        <Annotations Target="SAP__self.OrderType/CreatedAt">
+          <Annotation Term="Org.OData.Core.V1.Computed" Bool="true"/>
+        </Annotations>
+        <Annotations Target="SAP__self.Container/Order">
+          <Annotation Term="SAP__capabilities.FilterRestrictions">
+            <Record>
+              <PropertyValue Property="RequiresFilter" Bool="true"/>
+              <PropertyValue Property="RequiredProperties">
+                <Collection><PropertyPath>Customer</PropertyPath></Collection>
+              </PropertyValue>
+              <PropertyValue Property="NonFilterableProperties">
+                <Collection><PropertyPath>NetAmount</PropertyPath></Collection>
+              </PropertyValue>
+            </Record>
+          </Annotation>
+          <Annotation Term="SAP__capabilities.SortRestrictions">
+            <Record>
+              <PropertyValue Property="NonSortableProperties">
+                <Collection><PropertyPath>Customer</PropertyPath></Collection>
+              </PropertyValue>
+            </Record>
+          </Annotation>
+        </Annotations>`;
+      const metadata = parseMetadata(v4Metadata(schema), 'v4');
+      const order = metadata.entityTypes[0];
+      const property = (name: string) => order.properties.find(prop => prop.name === name)!;
+
+      expect(order).toMatchObject({
+        label: 'Order',
+        lineItem: ['OrderID', 'NetAmount'],
+        selectionFields: ['Customer', 'CreatedAt'],
+        requiresFilter: true,
+      });
+      expect(property('Customer')).toMatchObject({
+        label: 'Sold-To Party',
+        text: 'CustomerName',
+        requiredInFilter: true,
+        filterable: true,
+        sortable: false,
+      });
+      expect(property('NetAmount')).toMatchObject({
+        scale: 'variable',
+        unit: 'Currency',
+        filterable: false,
+        sortable: true,
+      });
+      expect(property('OrderID')).toMatchObject({ creatable: true, updatable: false });
+      expect(property('CreatedAt')).toMatchObject({ creatable: false, updatable: false });
+    });
+  });
+});
+
+describe('SAPDiscoveryService.loadAllMetadata', () => {
+  function createServices(count: number): ODataService[] {
+    return Array.from({ length: count }, (_, index) => ({
+      id: `SERVICE_${index}`,
+      version: '0001',
+      title: `Service ${index}`,
+      description: '',
+      odataVersion: 'v2' as const,
+      url: `/sap/opu/odata/sap/SERVICE_${index}/`,
+      metadataUrl: `/sap/opu/odata/sap/SERVICE_${index}/$metadata`,
+      entitySets: [],
+      metadata: null,
+    }));
+  }
+
+  async function loadAll(concurrency: number, services: ODataService[]) {
+    const config = createConfig({ 'odata.metadataConcurrency': concurrency });
+    const service = new SAPDiscoveryService(
+      {} as SAPClient,
+      new Logger('SAPDiscoveryTest'),
+      config
+    );
+    let running = 0;
+    let maxRunning = 0;
+    const loaded: string[] = [];
+    Object.assign(service, {
+      ensureMetadata: async (odataService: ODataService) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        loaded.push(odataService.id);
+        running--;
+        return null;
+      },
+    });
+    await (
+      service as unknown as { loadAllMetadata(services: ODataService[]): Promise<void> }
+    ).loadAllMetadata(services);
+    return { loaded, maxRunning };
+  }
+
+  test('loads every service with at most the configured number in parallel', async () => {
+    const { loaded, maxRunning } = await loadAll(3, createServices(10));
+
+    expect(loaded).toHaveLength(10);
+    expect(maxRunning).toBe(3);
+  });
+
+  test('falls back to the default concurrency for a non-numeric setting', async () => {
+    const { loaded, maxRunning } = await loadAll(NaN, createServices(8));
+
+    expect(loaded).toHaveLength(8);
+    expect(maxRunning).toBe(5);
+  });
+});
+
+describe('SAPDiscoveryService.getServiceMetadata', () => {
+  const document = v2Metadata(SALES_ORDER_SCHEMA);
+  const validators = { ETag: 'W/"20240301"', 'Last-Modified': 'Fri, 01 Mar 2024 10:00:00 GMT' };
+  let entries: Map<string, CachedServiceMetadata>;
+
+  beforeEach(() => {
+    entries = new Map();
+    MetadataCache.getInstance().setStore({
+      get: async key => entries.get(key),
+      set: async (key, entry) => {
+        entries.set(key, entry);
+      },
+    });
+  });
+
+  afterEach(() => {
+    MetadataCache.getInstance().setStore(undefined);
+    (executeHttpRequest as jest.MockedFunction<typeof executeHttpRequest>).mockReset();
+  });
+
+  /**
+   * Load the metadata of a not yet loaded service like the first tool call after a restart does
+   */
+  async function load() {
+    const config = Object.assign(createConfig(), { getDesignTimeDestination: () => 'S4H' });
+    const sapClient = { getDestination: async () => TEST_DESTINATION } as unknown as SAPClient;
+    const discovery = new SAPDiscoveryService(sapClient, new Logger('SAPDiscoveryTest'), config);
+    const service = { ...createService(), metadata: null };
+    await discovery.ensureMetadata(service);
+    return service;
+  }
+
+  test('stores the document with its validators and revalidates the cached copy', async () => {
+    const sent = mockRequests(httpResponse(200, document, validators), httpError(304));
+
+    const downloaded = await load();
+    const revalidated = await load();
+
+    expect(sent[0].headers).toEqual({ Accept: 'application/xml' });
+    expect(sent[1].headers).toEqual({
+      Accept: 'application/xml',
+      'If-None-Match': 'W/"20240301"',
+      'If-Modified-Since': 'Fri, 01 Mar 2024 10:00:00 GMT',
+    });
+    expect(revalidated.metadata).toEqual(downloaded.metadata);
+    expect(revalidated.metadataStatus).toMatchObject({ state: 'loaded' });
+    expect(revalidated.metadataStatus?.stale).toBeUndefined();
+  });
+
+  test.each([
+    ['a network error', networkError('ECONNREFUSED')],
+    ['an unavailable backend', httpError(503)],
+  ])('serves the cached copy as stale on %s', async (_, failure) => {
+    mockRequests(httpResponse(200, document, validators), failure);
+
+    const downloaded = await load();
+    const stale = await load();
+
+    expect(stale.metadata).toEqual(downloaded.metadata);
+    expect(stale.metadataStatus).toMatchObject({
+      state: 'loaded',
+      stale: true,
+      cachedAt: [...entries.values()][0].storedAt,
+    });
+  });
+
+  test.each([401, 404])('does not fall back to the cached copy on HTTP %s', async status => {
+    mockRequests(httpResponse(200, document, validators), httpError(status));
+
+    await load();
+    const rejected = await load();
+
+    expect(rejected.metadata).toBeNull();
+    expect(rejected.metadataStatus).toMatchObject({ state: 'failed' });
+  });
+
+  test('fails without a cached copy when the backend cannot be reached', async () => {
+    mockRequests(networkError('ECONNREFUSED'));
+
+    const service = await load();
+
+    expect(service.metadata).toBeNull();
+    expect(service.metadataStatus).toMatchObject({ state: 'failed', error: 'ECONNREFUSED' });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for SAP Gateway message parsing
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { SAPMessageUtils } from '../src/utils/sap-messages.js';
+
+describe('SAPMessageUtils.parseErrorBody', () => {
+  const v2Error = {
+    error: {
+      code: 'V1/123',
+      message: { lang: 'en', value: 'Material TG11 does not exist' },
+      innererror: {
+        errordetails: [
+          {
+            code: 'V1/123',
+            message: 'Material TG11 does not exist',
+            propertyref: 'Material',
+            severity: 'error',
+            longtext_url: '/sap/opu/odata/iwbep/message_text;o=LOCAL/',
+          },
+          { code: 'V1/200', message: 'Plant 1010 is locked', severity: 'warning' },
+        ],
+      },
+    },
+  };
+
+  test('reads V2 error bodies without repeating the main message', () => {
+    expect(SAPMessageUtils.parseErrorBody(v2Error)).toEqual({
+      code: 'V1/123',
+      message: 'Material TG11 does not exist',
+      messages: [
+        {
+          code: 'V1/123',
+          message: 'Material TG11 does not exist',
+          target: 'Material',
+          severity: 'error',
+          longtextUrl: '/sap/opu/odata/iwbep/message_text;o=LOCAL/',
+        },
+        {
+          code: 'V1/200',
+          message: 'Plant 1010 is locked',
+          target: undefined,
+          severity: 'warning',
+          longtextUrl: undefined,
+        },
+      ],
+    });
+  });
+
+  test('reads V4 error bodies with numeric severity details', () => {
+    const result = SAPMessageUtils.parseErrorBody({
+      error: {
+        code: 'SD/100',
+        message: 'Sales order could not be saved',
+        details: [
+          {
+            code: 'SD/101',
+            message: 'Sold-to party is missing',
+            target: 'SoldToParty',
+            '@Common.numericSeverity': 4,
+          },
+          { code: 'SD/102', message: 'Pricing is incomplete', '@Common.numericSeverity': 3 },
+        ],
+      },
+    });
+
+    expect(result?.code).toBe('SD/100');
+    expect(result?.message).toBe('Sales order could not be saved');
+    expect(
+      result?.messages.map(message => [message.code, message.severity, message.target])
+    ).toEqual([
+      ['SD/100', 'error', undefined],
+      ['SD/101', 'error', 'SoldToParty'],
+      ['SD/102', 'warning', undefined],
+    ]);
+  });
+
+  test('parses string and Buffer bodies', () => {
+    const text = JSON.stringify(v2Error);
+
+    expect(SAPMessageUtils.parseErrorBody(text)?.code).toBe('V1/123');
+    expect(SAPMessageUtils.parseErrorBody(Buffer.from(text))?.code).toBe('V1/123');
+  });
+
+  test.each([
+    ['HTML', '<html><body>500 Internal Server Error</body></html>'],
+    ['a payload without error', { d: { SalesOrder: '1000' } }],
+    ['an empty body', undefined],
+  ])('returns undefined for %s', (_, body) => {
+    expect(SAPMessageUtils.parseErrorBody(body)).toBeUndefined();
+  });
+});
+
+describe('SAPMessageUtils.parseMessageHeader', () => {
+  test('reads the V2 sap-message header with its details', () => {
+    const header = JSON.stringify({
+      code: 'V1/300',
+      message: 'Sales order 1000 saved',
+      severity: 'success',
+      details: [{ code: 'V1/301', message: 'Delivery date moved', severity: 'warning' }],
+    });
+
+    expect(
+      SAPMessageUtils.parseMessageHeader({ 'sap-message': header }).map(message => [
+        message.code,
+        message.severity,
+      ])
+    ).toEqual([
+      ['V1/300', 'success'],
+      ['V1/301', 'warning'],
+    ]);
+  });
+
+  test('reads the V4 sap-messages header with numeric severities', () => {
+    const header = JSON.stringify(
+      [1, 2, 3, 4].map(numericSeverity => ({
+        code: `SD/${numericSeverity}`,
+        message: `Severity ${numericSeverity}`,
+        numericSeverity,
+      }))
+    );
+
+    expect(
+      SAPMessageUtils.parseMessageHeader({ 'SAP-Messages': header }).map(
+        message => message.severity
+      )
+    ).toEqual(['success', 'info', 'warning', 'error']);
+  });
+
+  test('ignores missing and malformed headers', () => {
+    expect(SAPMessageUtils.parseMessageHeader(undefined)).toEqual([]);
+    expect(SAPMessageUtils.parseMessageHeader({ 'sap-message': 'not json' })).toEqual([]);
+  });
+});